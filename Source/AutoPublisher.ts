@@ -0,0 +1,209 @@
+import { Notice, TAbstractFile } from 'obsidian';
+import { NoteCopier } from './NoteCopier';
+
+/**
+ * A profile that republishes its published notes when they change
+ */
+export interface AutoPublishTarget {
+	name: string;
+	noteCopier: NoteCopier;
+}
+
+/**
+ * Collects modified, renamed and deleted files and, once no change has come in for the configured delay,
+ * brings the published files of every auto-publishing profile up to date. Its state is shown in the status bar.
+ */
+export class AutoPublisher {
+	private statusBarEl: HTMLElement;
+	private getTargets: () => AutoPublishTarget[];
+	private getDelay: () => number;
+	private modifiedPaths: Set<string> = new Set();
+	// New path of each renamed file, keyed by its path before the first rename
+	private renamedPaths: Map<string, string> = new Map();
+	private deletedPaths: Set<string> = new Set();
+	private timer: number | null = null;
+	private publishing = false;
+	private paused = false;
+	private lastErrorCount = 0;
+
+	/**
+	 * @param statusBarEl Status bar item that shows whether changes are pending, publishing or paused
+	 * @param getTargets Profiles that have auto-publish on, read on every change
+	 * @param getDelay Seconds to wait after the last change, read on every change
+	 */
+	constructor(statusBarEl: HTMLElement, getTargets: () => AutoPublishTarget[], getDelay: () => number) {
+		this.statusBarEl = statusBarEl;
+		this.getTargets = getTargets;
+		this.getDelay = getDelay;
+		this.updateStatus();
+	}
+
+	onModify(file: TAbstractFile): void {
+		if (!this.isWatched(file.path)) {
+			return;
+		}
+
+		this.modifiedPaths.add(file.path);
+		this.schedule();
+	}
+
+	onRename(file: TAbstractFile, oldPath: string): void {
+		if (!this.isWatched(file.path) && !this.isWatched(oldPath)) {
+			return;
+		}
+
+		this.renamedPaths.set(this.getOriginalPath(oldPath), file.path);
+		if (this.modifiedPaths.delete(oldPath)) {
+			this.modifiedPaths.add(file.path);
+		}
+		this.schedule();
+	}
+
+	onDelete(file: TAbstractFile): void {
+		if (!this.isWatched(file.path)) {
+			return;
+		}
+
+		const originalPath = this.getOriginalPath(file.path);
+		this.renamedPaths.delete(originalPath);
+		this.modifiedPaths.delete(file.path);
+		this.deletedPaths.add(originalPath);
+		this.schedule();
+	}
+
+	/**
+	 * Pause or resume auto-publishing. Changes made while paused are published on resume.
+	 */
+	togglePaused(): void {
+		this.paused = !this.paused;
+
+		if (this.paused) {
+			this.clearTimer();
+		} else if (this.hasPendingChanges()) {
+			this.schedule();
+		}
+
+		this.updateStatus();
+		new Notice(this.paused ? 'Auto-publish paused' : 'Auto-publish resumed');
+	}
+
+	/**
+	 * Show the current state in the status bar, or hide it when no profile auto-publishes
+	 */
+	updateStatus(): void {
+		const enabled = this.getTargets().length > 0;
+		this.statusBarEl.toggle(enabled);
+		if (!enabled) {
+			return;
+		}
+
+		const pendingCount = this.modifiedPaths.size + this.renamedPaths.size + this.deletedPaths.size;
+		let text = 'Auto-publish: on';
+		if (this.publishing) {
+			text = 'Auto-publish: publishing...';
+		} else if (this.paused) {
+			text = pendingCount > 0 ? `Auto-publish: paused (${pendingCount} pending)` : 'Auto-publish: paused';
+		} else if (pendingCount > 0) {
+			text = `Auto-publish: ${pendingCount} pending`;
+		} else if (this.lastErrorCount > 0) {
+			text = `Auto-publish: ${this.lastErrorCount} error(s)`;
+		}
+
+		this.statusBarEl.setText(text);
+		this.statusBarEl.setAttr('aria-label', this.paused ? 'Click to resume auto-publish' : 'Click to pause auto-publish');
+	}
+
+	/**
+	 * Stop waiting for pending changes, when the plugin unloads
+	 */
+	destroy(): void {
+		this.clearTimer();
+	}
+
+	/**
+	 * Check whether a change to a path can affect published files: some profile auto-publishes
+	 * and the path isn't one of the published copies themselves
+	 */
+	private isWatched(path: string): boolean {
+		const targets = this.getTargets();
+		return targets.length > 0 && !targets.some(target => target.noteCopier.isPublishedCopy(path));
+	}
+
+	/**
+	 * Get the path a file had before the renames still pending, so renaming twice counts once
+	 */
+	private getOriginalPath(path: string): string {
+		for (const [originalPath, newPath] of Array.from(this.renamedPaths.entries())) {
+			if (newPath === path) {
+				return originalPath;
+			}
+		}
+		return path;
+	}
+
+	private hasPendingChanges(): boolean {
+		return this.modifiedPaths.size > 0 || this.renamedPaths.size > 0 || this.deletedPaths.size > 0;
+	}
+
+	/**
+	 * Wait the configured delay again after each change, so a burst of saves publishes once
+	 */
+	private schedule(): void {
+		this.clearTimer();
+		if (!this.paused) {
+			this.timer = window.setTimeout(() => this.publishPendingChanges(), Math.max(this.getDelay(), 1) * 1000);
+		}
+		this.updateStatus();
+	}
+
+	private clearTimer(): void {
+		if (this.timer !== null) {
+			window.clearTimeout(this.timer);
+			this.timer = null;
+		}
+	}
+
+	private async publishPendingChanges(): Promise<void> {
+		this.timer = null;
+		// Changes that come in meanwhile are published when this run is done
+		if (this.publishing || this.paused) {
+			return;
+		}
+
+		const modifiedPaths = Array.from(this.modifiedPaths);
+		const renamedPaths = new Map(this.renamedPaths);
+		const deletedPaths = Array.from(this.deletedPaths);
+		this.modifiedPaths.clear();
+		this.renamedPaths.clear();
+		this.deletedPaths.clear();
+
+		this.publishing = true;
+		this.updateStatus();
+
+		let errorCount = 0;
+		for (const target of this.getTargets()) {
+			try {
+				// Queued behind any manual publish to the same profile that is still running
+				const result = await target.noteCopier.republishChanges(modifiedPaths, renamedPaths, deletedPaths);
+				if (result && result.errors.length > 0) {
+					errorCount += result.errors.length;
+					console.warn(`Auto-publish to ${target.name} completed with errors:`, result.errors);
+					new Notice(`Auto-publish to ${target.name} finished with ${result.errors.length} error(s). Check console for details.`);
+				}
+			} catch (error) {
+				errorCount++;
+				console.error(`Error auto-publishing to ${target.name}:`, error);
+				new Notice(`Failed to auto-publish to ${target.name}: ${error.message}`);
+			}
+		}
+
+		this.lastErrorCount = errorCount;
+		this.publishing = false;
+
+		if (this.hasPendingChanges()) {
+			this.schedule();
+		} else {
+			this.updateStatus();
+		}
+	}
+}
@@ -0,0 +1,521 @@
+import { App, TFile, arrayBufferToBase64 } from 'obsidian';
+import { LinkExtractor } from './LinkExtractor';
+import { PublishManifest } from './PublishManifest';
+import { PublishOutput, VaultOutput } from './PublishOutput';
+import { ExcalidrawExportOptions } from './types';
+import { sniffImageMimeType } from './ExcalidrawUtil';
+
+// Preset colors of Obsidian Canvas, indexed by the color number stored in the file
+const CANVAS_PRESET_COLORS: Record<string, string> = {
+	'1': '#e93147',
+	'2': '#ec7500',
+	'3': '#e0ac00',
+	'4': '#08b94e',
+	'5': '#00bfbc',
+	'6': '#a882ff'
+};
+
+const IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'gif', 'webp', 'svg'];
+const FONT_SIZE = 16;
+const LINE_HEIGHT = 22;
+const NODE_PADDING = 12;
+
+type CanvasSide = 'top' | 'right' | 'bottom' | 'left';
+
+interface CanvasNode {
+	id: string;
+	type: 'text' | 'file' | 'link' | 'group';
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+	color?: string;
+	text?: string;
+	file?: string;
+	url?: string;
+	label?: string;
+}
+
+interface CanvasEdge {
+	id: string;
+	fromNode: string;
+	toNode: string;
+	fromSide?: CanvasSide;
+	toSide?: CanvasSide;
+	fromEnd?: 'none' | 'arrow';
+	toEnd?: 'none' | 'arrow';
+	color?: string;
+	label?: string;
+}
+
+interface CanvasData {
+	nodes: CanvasNode[];
+	edges: CanvasEdge[];
+}
+
+interface CanvasTheme {
+	background: string;
+	nodeFill: string;
+	stroke: string;
+	text: string;
+}
+
+/**
+ * Renders Obsidian Canvas files to images and finds the files placed on them
+ */
+export class CanvasUtil {
+	private app: App;
+	private linkExtractor: LinkExtractor;
+	private manifest: PublishManifest | null = null;
+	private output: PublishOutput;
+	private usedImages: string[] = [];
+	private exportErrors: string[] = [];
+	private targetFolderPath = '';
+	private exportOptions: ExcalidrawExportOptions = {
+		format: 'png',
+		scale: 1,
+		darkMode: false,
+		transparent: false,
+		padding: 10
+	};
+
+	constructor(app: App) {
+		this.app = app;
+		this.linkExtractor = new LinkExtractor(app);
+		this.output = new VaultOutput(app);
+	}
+
+	/**
+	 * Set the target folder path for image creation
+	 * @param targetFolderPath Path where images should be created
+	 */
+	setTargetFolderPath(targetFolderPath: string): void {
+		this.targetFolderPath = targetFolderPath;
+	}
+
+	/**
+	 * Set the manifest that remembers exported canvases, so unchanged canvases are not rendered again
+	 * @param manifest Loaded publish manifest
+	 */
+	setManifest(manifest: PublishManifest): void {
+		this.manifest = manifest;
+	}
+
+	/**
+	 * Forget the images and errors of earlier publishes, before a new publish starts
+	 */
+	resetRun(): void {
+		this.usedImages = [];
+		this.exportErrors = [];
+	}
+
+	/**
+	 * Set the output exported images are written to
+	 * @param output Output of the current output mode
+	 */
+	setOutput(output: PublishOutput): void {
+		this.output = output;
+	}
+
+	/**
+	 * Set the export options, shared with Excalidraw drawings
+	 * @param exportOptions Format, scale, theme, background and padding for exported images
+	 */
+	setExportOptions(exportOptions: ExcalidrawExportOptions): void {
+		this.exportOptions = { ...exportOptions };
+	}
+
+	/**
+	 * Replace canvas links and embeds in note content with exported images
+	 * @param content The note content to process
+	 * @param currentFile The current file context for resolving links
+	 * @returns Processed content with canvas links replaced by image links
+	 */
+	async processNoteContent(content: string, currentFile: TFile): Promise<string> {
+		const links = this.linkExtractor.extractLinks(content)
+			.filter(link => link.syntax !== 'frontmatter' && link.linkpath);
+		let processedContent = content;
+
+		// Replace from the end so earlier link positions stay valid
+		for (const link of links.reverse()) {
+			const canvas = this.linkExtractor.resolveLink(link, currentFile.path);
+			if (!canvas || canvas.extension !== 'canvas') {
+				continue;
+			}
+
+			const imageFileName = await this.exportCanvasToImage(canvas);
+			if (imageFileName) {
+				const imageLink = link.displayText ? `![[${imageFileName}|${link.displayText}]]` : `![[${imageFileName}]]`;
+				processedContent = processedContent.substring(0, link.position.start)
+					+ imageLink
+					+ processedContent.substring(link.position.end);
+			}
+		}
+
+		return processedContent;
+	}
+
+	/**
+	 * Get the vault files placed on a canvas as file nodes
+	 * @param canvas The canvas file
+	 * @returns The files, in node order
+	 */
+	async getCanvasFiles(canvas: TFile): Promise<TFile[]> {
+		const files: TFile[] = [];
+
+		try {
+			const data = this.parseCanvas(await this.app.vault.cachedRead(canvas));
+			for (const node of data.nodes) {
+				if (node.type !== 'file' || !node.file) {
+					continue;
+				}
+
+				const file = this.app.vault.getAbstractFileByPath(node.file);
+				if (file instanceof TFile && !files.includes(file)) {
+					files.push(file);
+				}
+			}
+		} catch (error) {
+			console.error(`Error reading canvas ${canvas.path}:`, error);
+		}
+
+		return files;
+	}
+
+	/**
+	 * Export a canvas to a PNG or SVG image, reusing the previous export
+	 * when neither the canvas, the files on it nor the export options changed
+	 * @param canvas The canvas file
+	 * @returns Generated image filename or null if export failed
+	 */
+	private async exportCanvasToImage(canvas: TFile): Promise<string | null> {
+		try {
+			const content = await this.app.vault.cachedRead(canvas);
+			const options = this.exportOptions;
+			const imageFolderPath = this.targetFolderPath ? `${this.targetFolderPath}/_Image` : '_Image';
+			const pathHash = (await PublishManifest.hash(canvas.path)).substring(0, 8);
+			const imageFileName = `${canvas.basename}-${pathHash}.${options.format}`;
+			const filePath = `${imageFolderPath}/${imageFileName}`;
+			// Images placed on the canvas can change without the canvas itself changing
+			const fileStamps = (await this.getCanvasFiles(canvas)).map(file => `${file.path}:${file.stat.mtime}`);
+			const exportHash = await PublishManifest.hash(`${content}\n${JSON.stringify(options)}\n${fileStamps.join('\n')}`);
+
+			const cached = this.manifest?.getDrawing(canvas.path);
+			if (cached && cached.imagePath === filePath && cached.hash === exportHash
+				&& await this.output.exists(filePath)) {
+				this.usedImages.push(filePath);
+				return imageFileName;
+			}
+
+			let data: CanvasData;
+			try {
+				data = this.parseCanvas(content);
+			} catch (error) {
+				this.exportErrors.push(`Failed to parse canvas ${canvas.path}: ${error.message}`);
+				return null;
+			}
+
+			const { svg, width, height } = await this.renderSvg(data, options);
+			const imageData = options.format === 'svg' ? svg : await this.svgToPng(svg, width, height, options.scale);
+
+			await this.output.write(filePath, imageData);
+
+			this.manifest?.setDrawing(canvas.path, { drawingPath: canvas.path, imagePath: filePath, hash: exportHash, exportedAt: Date.now() });
+			this.usedImages.push(filePath);
+
+			return imageFileName;
+		} catch (error) {
+			console.error(`Error exporting canvas ${canvas.path}:`, error);
+			this.exportErrors.push(`Failed to export canvas ${canvas.path}: ${error.message}`);
+			return null;
+		}
+	}
+
+	/**
+	 * Parse JSON Canvas content
+	 * @throws Error when the content is not a canvas
+	 */
+	private parseCanvas(content: string): CanvasData {
+		let parsed: Partial<CanvasData>;
+		try {
+			parsed = content.trim() ? JSON.parse(content) : {};
+		} catch (error) {
+			throw new Error(`invalid canvas JSON (${error.message})`);
+		}
+
+		if (!parsed || typeof parsed !== 'object') {
+			throw new Error('canvas JSON is not an object');
+		}
+
+		return {
+			nodes: Array.isArray(parsed.nodes) ? parsed.nodes : [],
+			edges: Array.isArray(parsed.edges) ? parsed.edges : []
+		};
+	}
+
+	/**
+	 * Render groups, edges and nodes of a canvas to an SVG document
+	 * @returns The SVG markup with its size in pixels
+	 */
+	private async renderSvg(data: CanvasData, options: ExcalidrawExportOptions): Promise<{ svg: string; width: number; height: number }> {
+		const theme: CanvasTheme = options.darkMode
+			? { background: '#1e1e1e', nodeFill: '#262626', stroke: '#5a5a5a', text: '#dadada' }
+			: { background: '#ffffff', nodeFill: '#ffffff', stroke: '#c8c8c8', text: '#222222' };
+		const padding = options.padding;
+
+		if (data.nodes.length === 0) {
+			const size = Math.max(padding * 2, 1);
+			return { svg: this.wrapSvg('', size, size, 0, 0, theme, options), width: size, height: size };
+		}
+
+		const minX = Math.min(...data.nodes.map(node => node.x)) - padding;
+		const minY = Math.min(...data.nodes.map(node => node.y)) - padding;
+		const width = Math.max(...data.nodes.map(node => node.x + node.width)) + padding - minX;
+		const height = Math.max(...data.nodes.map(node => node.y + node.height)) + padding - minY;
+		const nodesById = new Map(data.nodes.map(node => [node.id, node] as [string, CanvasNode]));
+
+		const parts: string[] = [];
+		// Groups sit below everything else, edges below the nodes they connect
+		data.nodes.filter(node => node.type === 'group').forEach(node => parts.push(this.renderGroup(node, theme)));
+		data.edges.forEach(edge => parts.push(this.renderEdge(edge, nodesById, theme)));
+		for (const node of data.nodes.filter(node => node.type !== 'group')) {
+			parts.push(await this.renderNode(node, theme));
+		}
+
+		return { svg: this.wrapSvg(parts.join('\n'), width, height, minX, minY, theme, options), width, height };
+	}
+
+	private wrapSvg(body: string, width: number, height: number, minX: number, minY: number, theme: CanvasTheme, options: ExcalidrawExportOptions): string {
+		const background = options.transparent ? '' : `<rect x="${minX}" y="${minY}" width="${width}" height="${height}" fill="${theme.background}"/>`;
+
+		return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="${minX} ${minY} ${width} ${height}" font-family="sans-serif" font-size="${FONT_SIZE}">`
+			+ '<defs><marker id="arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse">'
+			+ '<path d="M0,0 L10,5 L0,10 z" fill="context-stroke"/></marker></defs>'
+			+ `${background}${body}</svg>`;
+	}
+
+	private renderGroup(node: CanvasNode, theme: CanvasTheme): string {
+		const color = this.getColor(node.color) || theme.stroke;
+		const label = node.label
+			? `<text x="${node.x}" y="${node.y - 8}" fill="${theme.text}" font-weight="bold">${this.escapeXml(node.label)}</text>`
+			: '';
+
+		return `<rect x="${node.x}" y="${node.y}" width="${node.width}" height="${node.height}" rx="8" fill="${color}" fill-opacity="0.08" stroke="${color}" stroke-width="2"/>${label}`;
+	}
+
+	private async renderNode(node: CanvasNode, theme: CanvasTheme): Promise<string> {
+		const color = this.getColor(node.color);
+		const box = `<rect x="${node.x}" y="${node.y}" width="${node.width}" height="${node.height}" rx="8" fill="${theme.nodeFill}" stroke="${color || theme.stroke}" stroke-width="2"/>`
+			+ (color ? `<rect x="${node.x}" y="${node.y}" width="${node.width}" height="${node.height}" rx="8" fill="${color}" fill-opacity="0.1"/>` : '');
+
+		if (node.type === 'file' && node.file) {
+			const file = this.app.vault.getAbstractFileByPath(node.file);
+			if (file instanceof TFile && IMAGE_EXTENSIONS.includes(file.extension.toLowerCase())) {
+				const image = await this.renderImage(node, file);
+				if (image) {
+					return `${box}${image}`;
+				}
+			}
+
+			const title = file instanceof TFile ? (file.extension === 'md' ? file.basename : file.name) : node.file;
+			return `${box}${this.renderText(node, title, theme, true)}`;
+		}
+
+		if (node.type === 'link') {
+			return `${box}${this.renderText(node, node.url || '', theme, false)}`;
+		}
+
+		return `${box}${this.renderText(node, this.toPlainText(node.text || ''), theme, false)}`;
+	}
+
+	private async renderImage(node: CanvasNode, file: TFile): Promise<string | null> {
+		const data = await this.app.vault.readBinary(file);
+		const mimeType = sniffImageMimeType(data);
+		if (!mimeType) {
+			return null;
+		}
+
+		const dataUrl = `data:${mimeType};base64,${arrayBufferToBase64(data)}`;
+		return `<image x="${node.x}" y="${node.y}" width="${node.width}" height="${node.height}" preserveAspectRatio="xMidYMid meet" href="${dataUrl}"/>`;
+	}
+
+	/**
+	 * Render text inside a node, wrapped to the node width and cut off at the node height
+	 */
+	private renderText(node: CanvasNode, text: string, theme: CanvasTheme, bold: boolean): string {
+		// SVG text doesn't wrap, so estimate how many characters fit on a line
+		const maxChars = Math.max(1, Math.floor((node.width - NODE_PADDING * 2) / (FONT_SIZE * 0.55)));
+		const maxLines = Math.max(1, Math.floor((node.height - NODE_PADDING * 2) / LINE_HEIGHT));
+		const lines = this.wrapLines(text, maxChars).slice(0, maxLines);
+		const weight = bold ? ' font-weight="bold"' : '';
+
+		return lines
+			.map((line, index) => `<text x="${node.x + NODE_PADDING}" y="${node.y + NODE_PADDING + FONT_SIZE + index * LINE_HEIGHT}" fill="${theme.text}"${weight}>${this.escapeXml(line)}</text>`)
+			.join('');
+	}
+
+	private wrapLines(text: string, maxChars: number): string[] {
+		const lines: string[] = [];
+
+		for (const paragraph of text.split('\n')) {
+			let line = '';
+			for (const word of paragraph.split(/\s+/).filter(word => word)) {
+				if (line && line.length + word.length + 1 > maxChars) {
+					lines.push(line);
+					line = '';
+				}
+				line = line ? `${line} ${word}` : word;
+			}
+			lines.push(line);
+		}
+
+		return lines;
+	}
+
+	/**
+	 * Strip the markdown syntax a rendered text node wouldn't show
+	 */
+	private toPlainText(markdown: string): string {
+		return markdown
+			.replace(/^#{1,6}\s+/gm, '')
+			.replace(/\[\[([^\]|]+)\|([^\]]+)\]\]/g, '$2')
+			.replace(/\[\[([^\]]+)\]\]/g, '$1')
+			.replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+			.replace(/(\*\*|__|==|~~)(.+?)\1/g, '$2')
+			.replace(/`([^`]*)`/g, '$1');
+	}
+
+	private renderEdge(edge: CanvasEdge, nodesById: Map<string, CanvasNode>, theme: CanvasTheme): string {
+		const fromNode = nodesById.get(edge.fromNode);
+		const toNode = nodesById.get(edge.toNode);
+		if (!fromNode || !toNode) {
+			return '';
+		}
+
+		const fromSide = edge.fromSide || this.getFacingSide(fromNode, toNode);
+		const toSide = edge.toSide || this.getFacingSide(toNode, fromNode);
+		const from = this.getSidePoint(fromNode, fromSide);
+		const to = this.getSidePoint(toNode, toSide);
+		const distance = Math.hypot(to.x - from.x, to.y - from.y);
+		const bend = Math.max(40, distance / 3);
+		const fromControl = this.offsetPoint(from, fromSide, bend);
+		const toControl = this.offsetPoint(to, toSide, bend);
+		const color = this.getColor(edge.color) || theme.stroke;
+		const markerStart = edge.fromEnd === 'arrow' ? ' marker-start="url(#arrow)"' : '';
+		const markerEnd = edge.toEnd !== 'none' ? ' marker-end="url(#arrow)"' : '';
+
+		const path = `<path d="M${from.x},${from.y} C${fromControl.x},${fromControl.y} ${toControl.x},${toControl.y} ${to.x},${to.y}" fill="none" stroke="${color}" stroke-width="2"${markerStart}${markerEnd}/>`;
+		const label = edge.label
+			? `<text x="${(from.x + to.x) / 2}" y="${(from.y + to.y) / 2}" fill="${theme.text}" text-anchor="middle">${this.escapeXml(edge.label)}</text>`
+			: '';
+
+		return `${path}${label}`;
+	}
+
+	/**
+	 * Pick the side of a node that faces another node, for edges saved without sides
+	 */
+	private getFacingSide(node: CanvasNode, other: CanvasNode): CanvasSide {
+		const dx = (other.x + other.width / 2) - (node.x + node.width / 2);
+		const dy = (other.y + other.height / 2) - (node.y + node.height / 2);
+
+		if (Math.abs(dx) > Math.abs(dy)) {
+			return dx > 0 ? 'right' : 'left';
+		}
+		return dy > 0 ? 'bottom' : 'top';
+	}
+
+	private getSidePoint(node: CanvasNode, side: CanvasSide): { x: number; y: number } {
+		switch (side) {
+			case 'top':
+				return { x: node.x + node.width / 2, y: node.y };
+			case 'bottom':
+				return { x: node.x + node.width / 2, y: node.y + node.height };
+			case 'left':
+				return { x: node.x, y: node.y + node.height / 2 };
+			default:
+				return { x: node.x + node.width, y: node.y + node.height / 2 };
+		}
+	}
+
+	private offsetPoint(point: { x: number; y: number }, side: CanvasSide, distance: number): { x: number; y: number } {
+		switch (side) {
+			case 'top':
+				return { x: point.x, y: point.y - distance };
+			case 'bottom':
+				return { x: point.x, y: point.y + distance };
+			case 'left':
+				return { x: point.x - distance, y: point.y };
+			default:
+				return { x: point.x + distance, y: point.y };
+		}
+	}
+
+	/**
+	 * Resolve a canvas color, which is either a preset number or a hex color
+	 */
+	private getColor(color?: string): string | null {
+		if (!color) {
+			return null;
+		}
+		if (CANVAS_PRESET_COLORS[color]) {
+			return CANVAS_PRESET_COLORS[color];
+		}
+		return /^#[0-9a-f]{3,8}$/i.test(color) ? color : null;
+	}
+
+	/**
+	 * Rasterize SVG markup to PNG through an offscreen canvas
+	 */
+	private async svgToPng(svg: string, width: number, height: number, scale: number): Promise<ArrayBuffer> {
+		const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+
+		try {
+			const image = new Image();
+			await new Promise<void>((resolve, reject) => {
+				image.onload = () => resolve();
+				image.onerror = () => reject(new Error('the rendered SVG could not be loaded'));
+				image.src = url;
+			});
+
+			const canvasEl = document.createElement('canvas');
+			canvasEl.width = Math.ceil(width * scale);
+			canvasEl.height = Math.ceil(height * scale);
+			const context = canvasEl.getContext('2d');
+			if (!context) {
+				throw new Error('no 2D canvas context available');
+			}
+			context.drawImage(image, 0, 0, canvasEl.width, canvasEl.height);
+
+			const blob = await new Promise<Blob | null>(resolve => canvasEl.toBlob(resolve, 'image/png'));
+			if (!blob) {
+				throw new Error('PNG encoding failed');
+			}
+			return await blob.arrayBuffer();
+		} finally {
+			URL.revokeObjectURL(url);
+		}
+	}
+
+	private escapeXml(text: string): string {
+		return text
+			.replace(/&/g, '&amp;')
+			.replace(/</g, '&lt;')
+			.replace(/>/g, '&gt;')
+			.replace(/"/g, '&quot;');
+	}
+
+	/**
+	 * Get the images that processed notes embed, whether exported now or reused from an earlier publish
+	 */
+	getUsedImages(): string[] {
+		return [...this.usedImages];
+	}
+
+	/**
+	 * Get the canvases that could not be parsed or exported, with the reason
+	 */
+	getExportErrors(): string[] {
+		return [...this.exportErrors];
+	}
+}
@@ -0,0 +1,28 @@
+import { App, FuzzySuggestModal } from 'obsidian';
+
+/**
+ * Modal that lets the user fuzzy-search a list of strings and pick one
+ */
+export class ChoiceSuggestModal extends FuzzySuggestModal<string> {
+	private choices: string[];
+	private onChoose: (choice: string) => void;
+
+	constructor(app: App, placeholder: string, choices: string[], onChoose: (choice: string) => void) {
+		super(app);
+		this.choices = choices;
+		this.onChoose = onChoose;
+		this.setPlaceholder(placeholder);
+	}
+
+	getItems(): string[] {
+		return this.choices;
+	}
+
+	getItemText(choice: string): string {
+		return choice;
+	}
+
+	onChooseItem(choice: string): void {
+		this.onChoose(choice);
+	}
+}
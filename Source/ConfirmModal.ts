@@ -0,0 +1,63 @@
+import { App, Modal, Setting } from 'obsidian';
+
+/**
+ * Modal that lists files and asks the user to confirm an action on them
+ */
+export class ConfirmModal extends Modal {
+	private title: string;
+	private message: string;
+	private items: string[];
+	private confirmText: string;
+	private resolvePromise: ((confirmed: boolean) => void) | null = null;
+	private confirmed = false;
+
+	constructor(app: App, title: string, message: string, items: string[], confirmText: string) {
+		super(app);
+		this.title = title;
+		this.message = message;
+		this.items = items;
+		this.confirmText = confirmText;
+	}
+
+	/**
+	 * Open the modal and wait for the user's decision
+	 * @returns True if the user confirmed, false if they cancelled or closed the modal
+	 */
+	waitForConfirmation(): Promise<boolean> {
+		return new Promise(resolve => {
+			this.resolvePromise = resolve;
+			this.open();
+		});
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+
+		contentEl.createEl('h2', { text: this.title });
+		contentEl.createEl('p', { text: this.message });
+
+		const listEl = contentEl.createEl('ul', { cls: 'ns-publish-confirm-list' });
+		this.items.forEach(item => listEl.createEl('li', { text: item }));
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Cancel')
+				.onClick(() => this.close()))
+			.addButton(button => button
+				.setButtonText(this.confirmText)
+				.setWarning()
+				.onClick(() => {
+					this.confirmed = true;
+					this.close();
+				}));
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+
+		if (this.resolvePromise) {
+			this.resolvePromise(this.confirmed);
+			this.resolvePromise = null;
+		}
+	}
+}
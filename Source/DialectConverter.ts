@@ -0,0 +1,120 @@
+import { App } from 'obsidian';
+import { NSPublishSettings } from './types';
+import { LinkExtractor } from './LinkExtractor';
+
+const FRONTMATTER_REG = /^---\r?\n[\s\S]*?\r?\n---(?:\r?\n|$)/;
+const COMMENT_REG = /%%[\s\S]*?(?:%%|$)/g;
+const HIGHLIGHT_REG = /==(?=\S)([^\n]*?\S)==/g;
+const CALLOUT_REG = /^>\s*\[!([^\]]+)\]([+-]?)\s*(.*)$/;
+// A tag needs at least one character that isn't a digit
+const TAG_REG = /(^|\s)#([\p{L}\p{N}_/-]*[\p{L}_/-][\p{L}\p{N}_/-]*)/gu;
+
+/**
+ * Converts the Obsidian-only syntax left in a published copy to portable CommonMark/GFM.
+ * Links are converted by the link rewriter, which knows where every target was published.
+ */
+export class DialectConverter {
+	private app: App;
+	private settings: NSPublishSettings;
+	private linkExtractor: LinkExtractor;
+
+	constructor(app: App, settings: NSPublishSettings) {
+		this.app = app;
+		this.settings = settings;
+		this.linkExtractor = new LinkExtractor(app);
+	}
+
+	/**
+	 * Convert comments, highlights, callouts and tags outside of code
+	 * @param content Content of the published copy
+	 * @returns CommonMark content, or the content unchanged when the output dialect is Obsidian
+	 */
+	convert(content: string): string {
+		if (this.settings.outputDialect !== 'commonmark') {
+			return content;
+		}
+
+		const frontmatterMatch = content.match(FRONTMATTER_REG);
+		const frontmatter = frontmatterMatch ? frontmatterMatch[0] : '';
+		let body = content.substring(frontmatter.length);
+
+		body = this.replaceOutsideCode(body, COMMENT_REG, () => '');
+		body = this.replaceOutsideCode(body, HIGHLIGHT_REG, match => `<mark>${match.substring(2, match.length - 2)}</mark>`);
+		body = this.convertCallouts(body);
+
+		if (this.settings.tagStyle !== 'keep') {
+			body = this.replaceOutsideCode(body, TAG_REG, match => {
+				const leading = match.substring(0, match.indexOf('#'));
+				return this.settings.tagStyle === 'text' ? `${leading}${match.substring(leading.length + 1)}` : leading;
+			});
+		}
+
+		return frontmatter + body;
+	}
+
+	/**
+	 * Replace regex matches found in the text with code masked out
+	 */
+	private replaceOutsideCode(text: string, regex: RegExp, replace: (match: string) => string): string {
+		const masked = this.linkExtractor.maskCode(text);
+		const matches = Array.from(masked.matchAll(regex));
+		let result = text;
+
+		for (const match of matches.reverse()) {
+			const start = match.index ?? 0;
+			const end = start + match[0].length;
+			result = result.substring(0, start) + replace(text.substring(start, end)) + result.substring(end);
+		}
+
+		return result;
+	}
+
+	/**
+	 * Rewrite top-level callouts as titled blockquotes or admonitions
+	 */
+	private convertCallouts(body: string): string {
+		const lines = body.split('\n');
+		const maskedLines = this.linkExtractor.maskCode(body).split('\n');
+		const converted: string[] = [];
+		let inAdmonition = false;
+
+		for (let i = 0; i < lines.length; i++) {
+			const calloutMatch = maskedLines[i].match(CALLOUT_REG);
+
+			if (calloutMatch) {
+				const type = calloutMatch[1].trim().toLowerCase();
+				const fold = calloutMatch[2];
+				// The title is read from the original line, since code spans in it are blanked in the masked one
+				const rawTitle = lines[i].substring(maskedLines[i].length - calloutMatch[3].length);
+				const title = rawTitle.trim() || type.charAt(0).toUpperCase() + type.substring(1);
+
+				if (this.settings.calloutStyle === 'admonition') {
+					// Folded callouts become collapsible admonitions, open ones when they are expanded by default
+					const marker = fold === '-' ? '???' : fold === '+' ? '???+' : '!!!';
+					converted.push(`${marker} ${type} "${title.replace(/"/g, '\\"')}"`);
+					inAdmonition = true;
+				} else {
+					converted.push(`> **${title}**`);
+				}
+				continue;
+			}
+
+			if (inAdmonition) {
+				if (maskedLines[i].startsWith('>')) {
+					const inner = lines[i].replace(/^>\s?/, '');
+					converted.push(inner ? `    ${inner}` : '');
+					continue;
+				}
+				inAdmonition = false;
+			}
+
+			converted.push(lines[i]);
+		}
+
+		return converted.join('\n');
+	}
+
+	updateSettings(newSettings: NSPublishSettings): void {
+		this.settings = newSettings;
+	}
+}
@@ -0,0 +1,67 @@
+import { App, TFile } from 'obsidian';
+import { PublishDirectives } from './types';
+
+/**
+ * Reads per-note publish directives from frontmatter through the metadata cache
+ */
+export class DirectiveReader {
+	private app: App;
+
+	constructor(app: App) {
+		this.app = app;
+	}
+
+	/**
+	 * Read the publish directives of a note
+	 * @param file The note to read
+	 * @returns Directives with defaults applied for missing keys
+	 */
+	read(file: TFile): PublishDirectives {
+		const directives: PublishDirectives = {
+			publish: true,
+			followLinks: true
+		};
+
+		const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+		if (!frontmatter) {
+			return directives;
+		}
+
+		directives.publish = !this.isFalse(frontmatter['publish']);
+		directives.followLinks = !this.isFalse(frontmatter['publish-follow-links']);
+
+		const depth = Number(frontmatter['publish-depth']);
+		if (frontmatter['publish-depth'] !== undefined && frontmatter['publish-depth'] !== null
+			&& Number.isInteger(depth) && depth >= 0) {
+			directives.depth = depth;
+		}
+
+		const path = frontmatter['publish-path'];
+		if (typeof path === 'string' && this.isValidPinnedPath(path.trim())) {
+			directives.path = path.trim().replace(/^\/+/, '');
+		}
+
+		const slug = frontmatter['slug'];
+		if (typeof slug === 'string' && slug.trim() && !/[/\\]/.test(slug)) {
+			directives.slug = slug.trim();
+		}
+
+		const permalink = frontmatter['permalink'];
+		if (typeof permalink === 'string' && permalink.trim()) {
+			directives.permalink = permalink.trim();
+		}
+
+		return directives;
+	}
+
+	private isFalse(value: unknown): boolean {
+		return value === false || (typeof value === 'string' && value.trim().toLowerCase() === 'false');
+	}
+
+	/**
+	 * Pinned paths must stay inside the target folder
+	 */
+	private isValidPinnedPath(path: string): boolean {
+		return path.length > 0 && !path.split('/').includes('..') && !path.includes('\\') && !path.includes(':');
+	}
+}
@@ -1,16 +1,26 @@
-import { exportToBlob } from "@excalidraw/excalidraw";
-import { TFile, App } from 'obsidian';
+import { exportToBlob, exportToSvg } from "@excalidraw/excalidraw";
+import { TFile, App, arrayBufferToBase64, loadMathJax, renderMath, requestUrl } from 'obsidian';
 import * as LZString from 'lz-string';
+import { LinkExtractor } from './LinkExtractor';
+import { ExcalidrawExportOptions, ParsedLink } from './types';
+import { PublishManifest } from './PublishManifest';
+import { PublishOutput, VaultOutput } from './PublishOutput';
 
 // Constants for parsing Excalidraw compressed content
 export const DRAWING_COMPRESSED_REG = /(\n##? Drawing\n[^`]*(?:```compressed-json\n))([\s\S]*?)(```\n)/gm;
 const DRAWING_COMPRESSED_REG_FALLBACK = /(\n##? Drawing\n(?:```compressed-json\n)?)(.*)((```)?(%%)?)/gm;
+// Drawings saved with compression turned off keep the scene in a plain json block
+const DRAWING_JSON_REG = /\n##? Drawing\n[^`]*```json\n([\s\S]*?)\n```/m;
+// Subpaths such as #^frame=ingest, #^group=abc123 or #^area=abc123
+const DRAWING_REFERENCE_REG = /^#\^(frame|group|area)=(.+)$/;
 
-// Type definitions
-interface FileTypeResult {
-    mimeType: string;
-}
+// The sections of a markdown drawing that hold element text and element links
+const DRAWING_LINK_SECTIONS_REG = /^#{1,2} (?:Text Elements|Element Links)\n([\s\S]*?)(?=^#{1,2} |^%%|(?![\s\S]))/gm;
+// Entries of the Embedded Files section, e.g. `4f1c...: [[Screenshot.png]]`
+const EMBEDDED_FILE_ENTRY_REG = /^([a-f0-9]+):\s*(.+)$/;
+const EQUATION_REG = /^\$\$([\s\S]+)\$\$$/;
 
+// Type definitions
 interface EmbeddedFileData {
     id: string;
     dataURL: string;
@@ -19,21 +29,92 @@ interface EmbeddedFileData {
     lastRetrieved: number;
 }
 
-// Global file type checker (assumed to be available)
-declare const fileTypeChecker: {
-    detectFile(buffer: ArrayBuffer): FileTypeResult | null;
-};
+interface DrawingReference {
+    kind: 'frame' | 'group' | 'area';
+    id: string;
+}
+
+interface DrawingScene {
+    elements?: DrawingElement[];
+    files?: Record<string, EmbeddedFileData>;
+}
+
+// Minimal shape of the Excalidraw elements this class inspects
+interface DrawingElement {
+    id: string;
+    type: string;
+    name?: string | null;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    groupIds?: string[];
+    containerId?: string | null;
+    frameId?: string | null;
+    link?: string | null;
+    isDeleted?: boolean;
+}
+
+// MathJax as loaded by Obsidian; tex2svg is only there when the SVG output is available
+interface MathJaxGlobal {
+    tex2svg?: (source: string, options: { display: boolean }) => HTMLElement;
+}
+
+/**
+ * Detect an image type from the first bytes of its content
+ * @param buffer Image content
+ * @returns The MIME type, or null for anything other than PNG, JPEG, GIF, WebP and SVG
+ */
+export function sniffImageMimeType(buffer: ArrayBuffer): string | null {
+    const bytes = new Uint8Array(buffer, 0, Math.min(buffer.byteLength, 512));
+    const ascii = (start: number, end: number) => String.fromCharCode(...Array.from(bytes.subarray(start, end)));
+
+    if (bytes.length >= 8 && bytes[0] === 0x89 && ascii(1, 4) === 'PNG' && bytes[4] === 0x0d && bytes[5] === 0x0a) {
+        return 'image/png';
+    }
+    if (bytes.length >= 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) {
+        return 'image/jpeg';
+    }
+    if (ascii(0, 6) === 'GIF87a' || ascii(0, 6) === 'GIF89a') {
+        return 'image/gif';
+    }
+    if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') {
+        return 'image/webp';
+    }
+
+    // SVG is text: allow a BOM, an XML declaration, comments and a doctype before the root element
+    const head = new TextDecoder().decode(bytes).replace(/^\uFEFF/, '').trim();
+    if (/^(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*(<!DOCTYPE svg[^>]*>\s*)?<svg[\s>]/i.test(head)) {
+        return 'image/svg+xml';
+    }
+
+    return null;
+}
 
 /**
  * Utility class for processing Excalidraw files and converting them to images
  */
 export class ExcalidrawUtil {
     private app: App;
-    private createdImages: string[] = [];
+    private linkExtractor: LinkExtractor;
+    private manifest: PublishManifest | null = null;
+    private output: PublishOutput;
+    private usedImages: string[] = [];
+    private exportErrors: string[] = [];
+    private appendLinkList = false;
     private targetFolderPath: string = '';
+    private exportOptions: ExcalidrawExportOptions = {
+        format: 'png',
+        scale: 1,
+        darkMode: false,
+        transparent: false,
+        padding: 10
+    };
 
     constructor(app: App) {
         this.app = app;
+        this.linkExtractor = new LinkExtractor(app);
+        this.output = new VaultOutput(app);
     }
 
     /**
@@ -44,6 +125,46 @@ export class ExcalidrawUtil {
         this.targetFolderPath = targetFolderPath;
     }
 
+    /**
+     * Set the manifest that remembers exported drawings, so unchanged drawings are not exported again
+     * @param manifest Loaded publish manifest
+     */
+    public setManifest(manifest: PublishManifest): void {
+        this.manifest = manifest;
+    }
+
+    /**
+     * Forget the images and errors of earlier publishes, before a new publish starts
+     */
+    public resetRun(): void {
+        this.usedImages = [];
+        this.exportErrors = [];
+    }
+
+    /**
+     * Set the output exported images are written to
+     * @param output Output of the current output mode
+     */
+    public setOutput(output: PublishOutput): void {
+        this.output = output;
+    }
+
+    /**
+     * Set whether exported drawings get a "Linked from this diagram" list under the image,
+     * since the image itself can't carry clickable links
+     */
+    public setAppendLinkList(appendLinkList: boolean): void {
+        this.appendLinkList = appendLinkList;
+    }
+
+    /**
+     * Set the default export options, which drawings can override in their frontmatter
+     * @param exportOptions Format, scale, theme, background and padding for exported images
+     */
+    public setExportOptions(exportOptions: ExcalidrawExportOptions): void {
+        this.exportOptions = { ...exportOptions };
+    }
+
     /**
      * Process note content and replace Excalidraw links with exported images
      * @param content The note content to process
@@ -51,21 +172,28 @@ export class ExcalidrawUtil {
      * @returns Processed content with Excalidraw links replaced by image links
      */
     public async processNoteContent(content: string, currentFile: TFile): Promise<string> {
-        const wikilinkRegex = /(!?\[\[([^|\]]+)(?:\|([^\]]+))?\]\])/g;
+        const links = this.linkExtractor.extractLinks(content)
+            .filter(link => link.syntax !== 'frontmatter' && link.linkpath);
         let processedContent = content;
-        const matches = Array.from(content.matchAll(wikilinkRegex));
 
-        for (const match of matches) {
-            const fullMatch = match[1];
-            const fileName = match[2];
-            const displayText = match[3];
+        // Replace from the end so earlier link positions stay valid
+        for (const link of links.reverse()) {
+            const fileName = link.linkpath;
+            const displayText = link.displayText || undefined;
             
             try {
                 if (await this.isExcalidrawFile(fileName, currentFile)) {
-                    const imageFileName = await this.exportExcalidrawToImage(fileName, currentFile);
+                    const imageFileName = await this.exportExcalidrawToImage(fileName, currentFile, link.subpath);
                     if (imageFileName) {
                         const imageLink = displayText ? `![[${imageFileName}|${displayText}]]` : `![[${imageFileName}]]`;
-                        processedContent = processedContent.replace(fullMatch, imageLink);
+                        const lineEnd = processedContent.indexOf('\n', link.position.end);
+                        const insertAt = lineEnd === -1 ? processedContent.length : lineEnd;
+                        const linkList = this.appendLinkList ? await this.buildLinkList(fileName, currentFile) : '';
+                        processedContent = processedContent.substring(0, link.position.start)
+                            + imageLink
+                            + processedContent.substring(link.position.end, insertAt)
+                            + linkList
+                            + processedContent.substring(insertAt);
                     }
                 }
             } catch (error) {
@@ -75,13 +203,78 @@ export class ExcalidrawUtil {
 
         return processedContent;
     }
+
     /**
-     * Export Excalidraw file to PNG image
+     * Get the links on a drawing's text and elements, from the Text Elements and Element Links
+     * sections of markdown drawings and from the link of each element
+     * @param drawing The Excalidraw drawing
+     * @returns Links found in the drawing
+     */
+    public async getDrawingLinks(drawing: TFile): Promise<ParsedLink[]> {
+        const content = await this.app.vault.cachedRead(drawing);
+        const links: ParsedLink[] = [];
+
+        if (drawing.extension === 'md') {
+            for (const section of content.matchAll(DRAWING_LINK_SECTIONS_REG)) {
+                links.push(...this.linkExtractor.extractLinks(section[1]));
+            }
+        }
+
+        try {
+            const scene = this.parseDrawingContent(content, drawing);
+            for (const element of scene.elements || []) {
+                if (element.isDeleted || !element.link || /^[a-z][a-z0-9+.-]*:/i.test(element.link)) {
+                    continue;
+                }
+
+                // Element links are either a wikilink or a bare link path
+                const linkText = element.link.trim().startsWith('[[') ? element.link : `[[${element.link}]]`;
+                links.push(...this.linkExtractor.extractLinks(linkText));
+            }
+        } catch (error) {
+            // Unparseable drawings are reported when they are exported
+        }
+
+        return links;
+    }
+
+    /**
+     * Build the "Linked from this diagram" list for a drawing embed
+     * @returns Markdown to insert after the embed's line, or an empty string when the drawing links nothing
+     */
+    private async buildLinkList(fileName: string, currentFile: TFile): Promise<string> {
+        const drawing = this.app.metadataCache.getFirstLinkpathDest(fileName, currentFile.path);
+        if (!(drawing instanceof TFile)) {
+            return '';
+        }
+
+        const linkedNotes: TFile[] = [];
+        for (const link of await this.getDrawingLinks(drawing)) {
+            const linkedFile = this.linkExtractor.resolveLink(link, drawing.path);
+            if (linkedFile && linkedFile.extension === 'md' && linkedFile.path !== drawing.path && !linkedNotes.includes(linkedFile)
+                && !(await this.isExcalidrawFile(linkedFile.path, drawing))) {
+                linkedNotes.push(linkedFile);
+            }
+        }
+
+        if (linkedNotes.length === 0) {
+            return '';
+        }
+
+        // Full paths keep the links unambiguous for the link rewriter that runs afterwards
+        const items = linkedNotes.map(note => `- [[${note.path.replace(/\.md$/, '')}|${note.basename}]]`);
+        return `\n\nLinked from this diagram:\n${items.join('\n')}\n`;
+    }
+
+    /**
+     * Export Excalidraw file to a PNG or SVG image, reusing the previous export
+     * when neither the drawing, the files it embeds nor its export options changed
      * @param fileName Name of the Excalidraw file to export
      * @param currentFile Current file context for resolving paths
+     * @param subpath Optional frame, group or area reference limiting what is exported
      * @returns Generated image filename or null if export failed
      */
-    private async exportExcalidrawToImage(fileName: string, currentFile: TFile): Promise<string | null> {
+    private async exportExcalidrawToImage(fileName: string, currentFile: TFile, subpath = ''): Promise<string | null> {
         const file = this.app.metadataCache.getFirstLinkpathDest(fileName, currentFile.path);
         
         if (!(file instanceof TFile)) {
@@ -90,150 +283,429 @@ export class ExcalidrawUtil {
 
         try {
             const excalidrawContent = await this.app.vault.cachedRead(file);
-            const decompressedContent = this.decompressExcalidrawContent(excalidrawContent);
-            
-            if (!decompressedContent) {
+            const options = this.getDrawingExportOptions(file);
+            const imageFolderPath = this.targetFolderPath ? `${this.targetFolderPath}/_Image` : "_Image";
+            const reference = this.parseDrawingReference(subpath);
+            const exportKey = reference ? `${file.path}#^${reference.kind}=${reference.id}` : file.path;
+            // Name images after the drawing's path so republishing overwrites the same file
+            // and drawings that share a basename don't collide
+            const pathHash = (await PublishManifest.hash(exportKey)).substring(0, 8);
+            const referenceSuffix = reference ? `-${reference.kind}-${reference.id.replace(/[^\w-]+/g, '-')}` : '';
+            const imageFileName = `${file.basename}${referenceSuffix}-${pathHash}.${options.format}`;
+            const filePath = `${imageFolderPath}/${imageFileName}`;
+            // Embedded images and drawings can change without the drawing itself changing
+            const embeddedStamps = await this.getEmbeddedFileStamps(excalidrawContent, file, new Set([file.path]));
+            const exportHash = await PublishManifest.hash(`${excalidrawContent}\n${JSON.stringify(options)}\n${embeddedStamps.join('\n')}`);
+
+            const cached = this.manifest?.getDrawing(exportKey);
+            if (cached && cached.imagePath === filePath && cached.hash === exportHash
+                && await this.output.exists(filePath)) {
+                this.usedImages.push(filePath);
+                return imageFileName;
+            }
+
+            let scene: DrawingScene;
+            try {
+                scene = this.parseDrawingContent(excalidrawContent, file);
+            } catch (error) {
+                this.exportErrors.push(`Failed to parse Excalidraw drawing ${file.path}: ${error.message}`);
                 return null;
             }
-            
-            const json = JSON.parse(decompressedContent);
-            const embeddedFiles = await this.getExcalidrawEmbeddedFiles(excalidrawContent);
-            
-            const blob = await exportToBlob({
-                elements: json.elements || [],
+
+            const allElements = (scene.elements || []).filter(element => !element.isDeleted);
+            const selection = reference
+                ? this.selectReferencedElements(allElements, reference)
+                : { elements: allElements, exportingFrame: null };
+
+            if (!selection) {
+                this.exportErrors.push(`Excalidraw drawing ${file.path} has no ${reference?.kind} matching "${reference?.id}"`);
+                return null;
+            }
+
+            // Raw .excalidraw files carry their images in the scene, markdown drawings list them as links
+            const embeddedFiles = {
+                ...(scene.files || {}),
+                ...(await this.getExcalidrawEmbeddedFiles(excalidrawContent, file, options, new Set([file.path])))
+            };
+            const exportParams = {
+                elements: selection.elements,
+                exportingFrame: selection.exportingFrame,
                 files: embeddedFiles,
                 appState: {
-                    exportBackground: true,
-                    exportWithDarkMode: false,
-                    exportScale: 1
+                    exportBackground: !options.transparent,
+                    exportWithDarkMode: options.darkMode,
+                    exportScale: options.scale
+                },
+                exportPadding: options.padding
+            };
+
+            let imageData: ArrayBuffer | string;
+            if (options.format === 'svg') {
+                const svg = await exportToSvg(exportParams);
+                imageData = new XMLSerializer().serializeToString(svg);
+            } else {
+                const blob = await exportToBlob(exportParams);
+                if (!blob) {
+                    return null;
                 }
-            });
-                
-            if (!blob) {
-                return null;
+                imageData = await blob.arrayBuffer();
             }
 
-            const baseName = file.basename;
-            let imageFileName = `${baseName}.png`;
-            const imageFolderPath = this.targetFolderPath ? `${this.targetFolderPath}/_Image` : "_Image";
-            let filePath = `${imageFolderPath}/${imageFileName}`;
-            
-            await this.ensureImageFolderExists(imageFolderPath);
-            
-            let counter = 1;
-            while (this.app.vault.getAbstractFileByPath(filePath)) {
-                imageFileName = `${baseName}_${counter}.png`;
-                filePath = `${imageFolderPath}/${imageFileName}`;
-                counter++;
-            }
-            
-            const arrayBuffer = await blob.arrayBuffer();
-            await this.app.vault.createBinary(filePath, arrayBuffer);
-            this.createdImages.push(filePath);
+            await this.output.write(filePath, imageData);
+
+            this.manifest?.setDrawing(exportKey, { drawingPath: file.path, imagePath: filePath, hash: exportHash, exportedAt: Date.now() });
+            this.usedImages.push(filePath);
 
             return imageFileName;
         } catch (error) {
             console.error(`Error exporting Excalidraw file ${fileName}:`, error);
+            this.exportErrors.push(`Failed to export Excalidraw drawing ${file.path}: ${error.message}`);
             return null;
         }
     }
     
     /**
-     * Decompress Excalidraw content from LZ-string format
+     * Parse a frame, group or area reference from a link subpath
+     * @param subpath Link subpath, e.g. `#^frame=ingest`
+     * @returns The reference, or null when the subpath doesn't select part of the drawing
+     */
+    private parseDrawingReference(subpath: string): DrawingReference | null {
+        const match = subpath.match(DRAWING_REFERENCE_REG);
+        if (!match) {
+            return null;
+        }
+
+        return { kind: match[1] as DrawingReference['kind'], id: match[2].trim() };
+    }
+
+    /**
+     * Pick the elements a frame, group or area reference selects.
+     * Frames are matched by id or name and clip the export to their bounds. Groups include every
+     * element of the outermost group the referenced element belongs to. Areas clip the export
+     * to the bounds of the referenced element.
+     * @returns The elements and optional clipping frame, or null when nothing matches
+     */
+    private selectReferencedElements(
+        elements: DrawingElement[],
+        reference: DrawingReference
+    ): { elements: DrawingElement[]; exportingFrame: DrawingElement | null } | null {
+        if (reference.kind === 'frame') {
+            const frame = elements.find(element =>
+                (element.type === 'frame' || element.type === 'magicframe')
+                && (element.id === reference.id || element.name === reference.id));
+
+            return frame ? { elements, exportingFrame: frame } : null;
+        }
+
+        const target = elements.find(element => element.id === reference.id);
+        if (!target) {
+            return null;
+        }
+
+        if (reference.kind === 'area') {
+            // Treat the element's bounds as a frame so the export is cropped to them
+            return { elements, exportingFrame: { ...target, type: 'frame', name: null, frameId: null } };
+        }
+
+        const groupIds = target.groupIds || [];
+        const outermostGroupId = groupIds[groupIds.length - 1];
+        const selectedIds = new Set(outermostGroupId
+            ? elements.filter(element => element.groupIds?.includes(outermostGroupId)).map(element => element.id)
+            : [target.id]);
+
+        // Keep text bound to selected shapes, which isn't part of the group itself
+        const selected = elements.filter(element =>
+            selectedIds.has(element.id) || (element.containerId && selectedIds.has(element.containerId)));
+
+        return { elements: selected, exportingFrame: null };
+    }
+
+    /**
+     * Merge the default export options with overrides from the drawing's frontmatter,
+     * e.g. `excalidraw-export-scale: 2` or `excalidraw-export-dark: true`
+     * @param file The Excalidraw drawing
+     * @returns Export options for this drawing
+     */
+    private getDrawingExportOptions(file: TFile): ExcalidrawExportOptions {
+        const options = { ...this.exportOptions };
+        const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+
+        if (!frontmatter) {
+            return options;
+        }
+
+        const format = String(frontmatter['excalidraw-export-format'] ?? '').toLowerCase();
+        if (format === 'png' || format === 'svg') {
+            options.format = format;
+        }
+
+        const scale = Number(frontmatter['excalidraw-export-scale'] ?? frontmatter['excalidraw-export-pngscale']);
+        if (scale > 0) {
+            options.scale = scale;
+        }
+
+        const padding = Number(frontmatter['excalidraw-export-padding'] ?? frontmatter['excalidraw-export-svgpadding']);
+        if (padding >= 0) {
+            options.padding = padding;
+        }
+
+        const darkMode = this.parseBoolean(frontmatter['excalidraw-export-dark']);
+        if (darkMode !== null) {
+            options.darkMode = darkMode;
+        }
+
+        const transparent = this.parseBoolean(frontmatter['excalidraw-export-transparent']);
+        if (transparent !== null) {
+            options.transparent = transparent;
+        }
+
+        return options;
+    }
+
+    private parseBoolean(value: unknown): boolean | null {
+        if (typeof value === 'boolean') {
+            return value;
+        }
+        if (typeof value === 'string' && ['true', 'false'].includes(value.trim().toLowerCase())) {
+            return value.trim().toLowerCase() === 'true';
+        }
+        return null;
+    }
+
+    /**
+     * Parse the scene of a drawing saved as compressed JSON, as a plain json block
+     * or as a raw .excalidraw file
      * @param content Raw Excalidraw file content
-     * @returns Decompressed JSON content
+     * @param file The drawing, whose extension tells raw files apart
+     * @returns The parsed scene
+     * @throws Error describing why the drawing couldn't be read
      */
-    private decompressExcalidrawContent(content: string): string | null {
-        let match = content.matchAll(DRAWING_COMPRESSED_REG);
-        let parts = match.next();
+    private parseDrawingContent(content: string, file: TFile): DrawingScene {
+        const json = file.extension === 'excalidraw' || content.trim().startsWith('{')
+            ? content
+            : this.extractDrawingJson(content);
 
-        if (parts.done) {
-            match = content.matchAll(DRAWING_COMPRESSED_REG_FALLBACK);
-            parts = match.next();
+        let scene: unknown;
+        try {
+            scene = JSON.parse(json);
+        } catch (error) {
+            throw new Error(`invalid drawing JSON (${error.message})`);
         }
 
-        if (parts.value && parts.value.length > 1) {
-            const compressedContent = parts.value[2];
-            const cleanedData = compressedContent.replace(/[\n\r]/g, '');
-            
-            try {
-                return LZString.decompressFromBase64(cleanedData);
-            } catch (error) {
-                console.error('Decompression failed:', error);
-                return null;
+        if (!scene || typeof scene !== 'object' || !Array.isArray((scene as DrawingScene).elements)) {
+            throw new Error('drawing JSON has no elements');
+        }
+
+        return scene as DrawingScene;
+    }
+
+    /**
+     * Get the scene JSON from the Drawing section of a markdown drawing
+     * @param content Raw Excalidraw file content
+     * @returns Scene JSON, decompressed from LZ-string format when needed
+     */
+    private extractDrawingJson(content: string): string {
+        let parts = content.matchAll(DRAWING_COMPRESSED_REG).next();
+
+        if (parts.done) {
+            const jsonMatch = content.match(DRAWING_JSON_REG);
+            if (jsonMatch) {
+                return jsonMatch[1];
             }
+
+            parts = content.matchAll(DRAWING_COMPRESSED_REG_FALLBACK).next();
         }
-        
-        return content;
+
+        if (!parts.value || parts.value.length < 3) {
+            throw new Error('no Drawing section found');
+        }
+
+        const cleanedData = parts.value[2].replace(/[\n\r]/g, '');
+        const decompressed = LZString.decompressFromBase64(cleanedData);
+        if (!decompressed) {
+            throw new Error('compressed drawing data could not be decompressed');
+        }
+
+        return decompressed;
     }
     
     /**
-     * Extract embedded files from Excalidraw content for image export
+     * Extract embedded files from Excalidraw content for image export.
+     * Entries can be wikilinks, markdown links, URLs, nested drawings or LaTeX equations.
      * @param content Raw Excalidraw file content
+     * @param drawing The drawing, which embedded links are resolved relative to
+     * @param options Export options, whose theme nested drawings follow
+     * @param visited Drawings being rendered, to stop drawings that embed each other
      * @returns Record of embedded file data keyed by file ID
      */
-    private async getExcalidrawEmbeddedFiles(content: string): Promise<Record<string, EmbeddedFileData>> {
+    private async getExcalidrawEmbeddedFiles(
+        content: string,
+        drawing: TFile,
+        options: ExcalidrawExportOptions,
+        visited: Set<string>
+    ): Promise<Record<string, EmbeddedFileData>> {
         const embeddedFiles: Record<string, EmbeddedFileData> = {};
+
+        for (const { fileId, source } of this.getEmbeddedFileEntries(content)) {
+            try {
+                const loaded = await this.loadEmbeddedFile(source, drawing, options, visited);
+                embeddedFiles[fileId] = {
+                    id: fileId,
+                    dataURL: `data:${loaded.mimeType};base64,${arrayBufferToBase64(loaded.data)}`,
+                    mimeType: loaded.mimeType,
+                    created: Date.now(),
+                    lastRetrieved: Date.now()
+                };
+            } catch (error) {
+                this.exportErrors.push(`Failed to load ${source} embedded in ${drawing.path}: ${error.message}`);
+            }
+        }
+        
+        return embeddedFiles;
+    }
+
+    /**
+     * Read the entries of a drawing's Embedded Files section
+     * @returns File ID and source of each entry
+     */
+    private getEmbeddedFileEntries(content: string): { fileId: string; source: string }[] {
         const embeddedFilesMatch = content.match(/## Embedded Files\s+([\s\S]*?)(?=\s*##|$)/);
 
         if (!embeddedFilesMatch?.[1]) {
-            return embeddedFiles;
+            return [];
         }
 
-        const fileEntries = embeddedFilesMatch[1].trim().split('\n');
+        const entries: { fileId: string; source: string }[] = [];
+        for (const entry of embeddedFilesMatch[1].trim().split('\n')) {
+            const fileMatch = entry.trim().match(EMBEDDED_FILE_ENTRY_REG);
+            if (fileMatch) {
+                entries.push({ fileId: fileMatch[1], source: fileMatch[2].trim() });
+            }
+        }
+
+        return entries;
+    }
+
+    /**
+     * Get the path and modification time of every vault file a drawing embeds, including those of nested drawings
+     * @param visited Drawings already stamped, to stop drawings that embed each other
+     */
+    private async getEmbeddedFileStamps(content: string, drawing: TFile, visited: Set<string>): Promise<string[]> {
+        const stamps: string[] = [];
 
-        for (const entry of fileEntries) {
-            const fileMatch = entry.match(/([a-f0-9]+):\s*\[\[(.*?)\]\]/);
+        for (const { source } of this.getEmbeddedFileEntries(content)) {
+            if (EQUATION_REG.test(source) || /^https?:\/\//i.test(source)) {
+                continue;
+            }
 
-            if (!fileMatch || fileMatch.length < 3) {
+            const [link] = this.linkExtractor.extractLinks(source);
+            const linkedFile = link ? this.linkExtractor.resolveLink(link, drawing.path) : null;
+            if (!linkedFile || visited.has(linkedFile.path)) {
                 continue;
             }
 
-            const fileId = fileMatch[1];
-            const filePath = fileMatch[2].trim();
+            visited.add(linkedFile.path);
+            stamps.push(`${linkedFile.path}:${linkedFile.stat.mtime}`);
 
-            try {
-                const imageFile = this.app.metadataCache.getFirstLinkpathDest(filePath, filePath);
-
-                if (imageFile instanceof TFile) {
-                    const fileContent = await this.app.vault.readBinary(imageFile);
-                    const fileType = fileTypeChecker.detectFile(fileContent);
-                    const mimeType = fileType?.mimeType || 'image/png';
-                    const base64Content = this.arrayBufferToBase64String(fileContent);
-                    const dataURL = `data:${mimeType};base64,${base64Content}`;
-
-                    embeddedFiles[fileId] = {
-                        id: fileId,
-                        dataURL,
-                        mimeType,
-                        created: Date.now(),
-                        lastRetrieved: Date.now()
-                    };
-                }
-            } catch (error) {
-                console.error(`Error loading embedded file ${filePath}:`, error);
+            if ((linkedFile.extension === 'md' || linkedFile.extension === 'excalidraw')
+                && await this.isExcalidrawFile(linkedFile.path, drawing)) {
+                stamps.push(...await this.getEmbeddedFileStamps(await this.app.vault.cachedRead(linkedFile), linkedFile, visited));
             }
         }
-        
-        return embeddedFiles;
+
+        return stamps;
     }
-    
+
     /**
-     * Convert ArrayBuffer to base64 string
-     * @param buffer ArrayBuffer to convert
-     * @returns Base64 encoded string
+     * Load the content of one Embedded Files entry
+     * @returns The content and its MIME type
+     * @throws Error when the entry can't be resolved or isn't a supported image
      */
-    private arrayBufferToBase64String(buffer: ArrayBuffer): string {
-        const bytes = new Uint8Array(buffer);
-        let binary = '';
-        
-        for (let i = 0; i < bytes.byteLength; i++) {
-            binary += String.fromCharCode(bytes[i]);
+    private async loadEmbeddedFile(
+        source: string,
+        drawing: TFile,
+        options: ExcalidrawExportOptions,
+        visited: Set<string>
+    ): Promise<{ data: ArrayBuffer; mimeType: string }> {
+        const equationMatch = source.match(EQUATION_REG);
+        if (equationMatch) {
+            return this.toSvgData(await this.renderEquation(equationMatch[1].trim()));
         }
-        
-        return window.btoa(binary);
+
+        let data: ArrayBuffer;
+        if (/^https?:\/\//i.test(source)) {
+            data = (await requestUrl({ url: source })).arrayBuffer;
+        } else {
+            const [link] = this.linkExtractor.extractLinks(source);
+            const linkedFile = link ? this.linkExtractor.resolveLink(link, drawing.path) : null;
+
+            if (!linkedFile) {
+                throw new Error('file not found');
+            }
+
+            if ((linkedFile.extension === 'md' || linkedFile.extension === 'excalidraw')
+                && await this.isExcalidrawFile(linkedFile.path, drawing)) {
+                return this.toSvgData(await this.renderNestedDrawing(linkedFile, options, visited));
+            }
+
+            data = await this.app.vault.readBinary(linkedFile);
+        }
+
+        const mimeType = sniffImageMimeType(data);
+        if (!mimeType) {
+            throw new Error('not a PNG, JPEG, GIF, WebP or SVG image');
+        }
+
+        return { data, mimeType };
+    }
+
+    /**
+     * Render a drawing embedded in another drawing to SVG, including its own embedded files
+     */
+    private async renderNestedDrawing(drawing: TFile, options: ExcalidrawExportOptions, visited: Set<string>): Promise<string> {
+        if (visited.has(drawing.path)) {
+            throw new Error('drawings embed each other');
+        }
+
+        const content = await this.app.vault.cachedRead(drawing);
+        const scene = this.parseDrawingContent(content, drawing);
+        const nestedVisited = new Set(visited).add(drawing.path);
+        const svg = await exportToSvg({
+            elements: (scene.elements || []).filter(element => !element.isDeleted),
+            files: {
+                ...(scene.files || {}),
+                ...(await this.getExcalidrawEmbeddedFiles(content, drawing, options, nestedVisited))
+            },
+            appState: {
+                exportBackground: false,
+                exportWithDarkMode: options.darkMode
+            },
+            exportPadding: 0
+        });
+
+        return new XMLSerializer().serializeToString(svg);
+    }
+
+    /**
+     * Render a LaTeX equation to SVG with Obsidian's MathJax
+     */
+    private async renderEquation(source: string): Promise<string> {
+        await loadMathJax();
+        const mathJax = (window as unknown as { MathJax?: MathJaxGlobal }).MathJax;
+        const rendered = mathJax?.tex2svg ? mathJax.tex2svg(source, { display: true }) : renderMath(source, true);
+        const svg = rendered.querySelector('svg');
+
+        if (!svg) {
+            throw new Error('MathJax did not render the equation as SVG');
+        }
+
+        return new XMLSerializer().serializeToString(svg);
     }
 
+    private toSvgData(svg: string): { data: ArrayBuffer; mimeType: string } {
+        return { data: new TextEncoder().encode(svg).buffer as ArrayBuffer, mimeType: 'image/svg+xml' };
+    }
+    
     /**
      * Check if a file is an Excalidraw file by examining its frontmatter
      * @param fileName Name of the file to check
@@ -267,28 +739,17 @@ export class ExcalidrawUtil {
         }
     }
 
-    private async ensureImageFolderExists(imageFolderPath: string): Promise<void> {
-        const existingFolder = this.app.vault.getAbstractFileByPath(imageFolderPath);
-        if (!existingFolder) {
-            await this.createFolderRecursively(imageFolderPath);
-        }
-    }
-
-    private async createFolderRecursively(folderPath: string): Promise<void> {
-        const parts = folderPath.split('/');
-        let currentPath = '';
-
-        for (const part of parts) {
-            currentPath = currentPath ? `${currentPath}/${part}` : part;
-            
-            const existingFolder = this.app.vault.getAbstractFileByPath(currentPath);
-            if (!existingFolder) {
-                await this.app.vault.createFolder(currentPath);
-            }
-        }
+    /**
+     * Get the drawings that could not be parsed or exported, with the reason
+     */
+    public getExportErrors(): string[] {
+        return [...this.exportErrors];
     }
 
-    public getCreatedImages(): string[] {
-        return [...this.createdImages];
+    /**
+     * Get the images that processed notes embed, whether exported now or reused from an earlier publish
+     */
+    public getUsedImages(): string[] {
+        return [...this.usedImages];
     }
 }
\ No newline at end of file
@@ -0,0 +1,238 @@
+import { App, TFile, normalizePath } from 'obsidian';
+import { ParsedLink, LinkSyntax } from './types';
+
+const FRONTMATTER_REG = /^---\r?\n([\s\S]*?)\r?\n---(?:\r?\n|$)/;
+const WIKILINK_REG = /(!?)\[\[([^[\]]+?)\]\]/g;
+const MARKDOWN_LINK_REG = /(!?)\[((?:[^[\]]|\[[^[\]]*\])*)\]\(\s*(<[^>\n]*>|[^\s()]*(?:\([^\s()]*\)[^\s()]*)*)(\s+(?:"[^"\n]*"|'[^'\n]*'))?\s*\)/g;
+const URL_SCHEME_REG = /^[a-z][a-z0-9+.-]*:/i;
+
+/**
+ * Extracts every link syntax Obsidian accepts from note content
+ * and resolves the link targets to vault files
+ */
+export class LinkExtractor {
+	private app: App;
+
+	constructor(app: App) {
+		this.app = app;
+	}
+
+	/**
+	 * Extract wikilinks, embeds, markdown links and frontmatter links from content.
+	 * Links inside fenced code blocks and inline code are ignored.
+	 * @param content The note content to scan
+	 * @returns Links ordered by their position in the content
+	 */
+	extractLinks(content: string): ParsedLink[] {
+		const links: ParsedLink[] = [];
+		let bodyStart = 0;
+
+		const frontmatterMatch = content.match(FRONTMATTER_REG);
+		if (frontmatterMatch) {
+			bodyStart = frontmatterMatch[0].length;
+			const frontmatter = content.substring(0, bodyStart);
+			this.collectWikilinks(frontmatter, 0, 'frontmatter', links, content);
+		}
+
+		const body = this.maskCode(content.substring(bodyStart));
+		const maskedBody = this.collectWikilinks(body, bodyStart, 'wikilink', links, content);
+		this.collectMarkdownLinks(maskedBody, bodyStart, links, content);
+
+		return links.sort((a, b) => a.position.start - b.position.start);
+	}
+
+	/**
+	 * Resolve a parsed link to a file in the vault
+	 * @param link The link to resolve
+	 * @param sourcePath Path of the note containing the link
+	 * @returns The linked file, or null for unresolved and same-note links
+	 */
+	resolveLink(link: ParsedLink, sourcePath: string): TFile | null {
+		if (!link.linkpath) {
+			return null;
+		}
+
+		if (link.syntax === 'markdown') {
+			const relativeFile = this.resolveRelativePath(link.linkpath, sourcePath);
+			if (relativeFile) {
+				return relativeFile;
+			}
+		}
+
+		return this.app.metadataCache.getFirstLinkpathDest(link.linkpath, sourcePath);
+	}
+
+	/**
+	 * Split link text into its path and subpath.
+	 * Both `Note#Heading`, `Note#^block` and `Note^block` are accepted.
+	 */
+	splitLinktext(linktext: string): { linkpath: string; subpath: string } {
+		const hashIndex = linktext.indexOf('#');
+		const caretIndex = linktext.indexOf('^');
+		const indices = [hashIndex, caretIndex].filter(index => index >= 0);
+
+		if (indices.length === 0) {
+			return { linkpath: linktext.trim(), subpath: '' };
+		}
+
+		const splitIndex = Math.min(...indices);
+		const rawSubpath = linktext.substring(splitIndex);
+
+		return {
+			linkpath: linktext.substring(0, splitIndex).trim(),
+			subpath: rawSubpath.startsWith('#') ? rawSubpath.trim() : `#${rawSubpath.trim()}`
+		};
+	}
+
+	/**
+	 * Collect wikilinks and embeds, returning the text with them blanked out
+	 */
+	private collectWikilinks(
+		text: string,
+		offset: number,
+		syntax: LinkSyntax,
+		links: ParsedLink[],
+		content: string
+	): string {
+		let masked = text;
+
+		for (const match of text.matchAll(WIKILINK_REG)) {
+			const index = match.index ?? 0;
+			const inner = match[2];
+			const pipeIndex = inner.indexOf('|');
+			let target = pipeIndex >= 0 ? inner.substring(0, pipeIndex) : inner;
+			const displayText = pipeIndex >= 0 ? inner.substring(pipeIndex + 1).trim() : undefined;
+
+			// Pipes escaped inside tables leave a trailing backslash on the target
+			if (target.endsWith('\\')) {
+				target = target.slice(0, -1);
+			}
+
+			const { linkpath, subpath } = this.splitLinktext(target);
+			const start = offset + index;
+
+			links.push({
+				original: match[0],
+				linkpath,
+				subpath,
+				displayText: displayText || undefined,
+				isEmbed: match[1] === '!' && syntax !== 'frontmatter',
+				syntax,
+				position: {
+					start,
+					end: start + match[0].length,
+					line: this.getLineNumber(content, start)
+				}
+			});
+
+			masked = masked.substring(0, index) + ' '.repeat(match[0].length) + masked.substring(index + match[0].length);
+		}
+
+		return masked;
+	}
+
+	/**
+	 * Collect standard markdown links and images pointing into the vault
+	 */
+	private collectMarkdownLinks(text: string, offset: number, links: ParsedLink[], content: string): void {
+		for (const match of text.matchAll(MARKDOWN_LINK_REG)) {
+			let destination = match[3];
+			if (destination.startsWith('<') && destination.endsWith('>')) {
+				destination = destination.slice(1, -1);
+			}
+
+			if (!destination || destination.startsWith('#') || URL_SCHEME_REG.test(destination)) {
+				continue;
+			}
+
+			const { linkpath, subpath } = this.splitLinktext(this.decodeDestination(destination));
+			const start = offset + (match.index ?? 0);
+			const title = match[4]?.trim();
+
+			links.push({
+				original: content.substring(start, start + match[0].length),
+				linkpath,
+				subpath,
+				displayText: match[2],
+				isEmbed: match[1] === '!',
+				syntax: 'markdown',
+				title: title ? title.slice(1, -1) : undefined,
+				position: {
+					start,
+					end: start + match[0].length,
+					line: this.getLineNumber(content, start)
+				}
+			});
+		}
+	}
+
+	/**
+	 * Replace fenced code blocks and inline code with spaces, keeping offsets and line breaks intact
+	 */
+	maskCode(text: string): string {
+		const lines = text.split('\n');
+		let fence: { char: string; length: number } | null = null;
+
+		const maskedLines = lines.map(line => {
+			const fenceMatch = line.match(/^ {0,3}(`{3,}|~{3,})/);
+
+			if (fence) {
+				if (fenceMatch && fenceMatch[1][0] === fence.char && fenceMatch[1].length >= fence.length
+					&& line.trim().length === fenceMatch[1].length) {
+					fence = null;
+				}
+				return ' '.repeat(line.length);
+			}
+
+			if (fenceMatch) {
+				fence = { char: fenceMatch[1][0], length: fenceMatch[1].length };
+				return ' '.repeat(line.length);
+			}
+
+			return line;
+		});
+
+		// Code spans may wrap onto the next line but, as in CommonMark, never run past a blank line
+		return maskedLines.join('\n').replace(/(`+)((?:[^\n]|\n(?!\s*\n))*?[^`])\1(?!`)/g, match => match.replace(/[^\n]/g, ' '));
+	}
+
+	/**
+	 * Resolve a markdown link destination relative to the source note's folder
+	 */
+	private resolveRelativePath(linkpath: string, sourcePath: string): TFile | null {
+		const sourceFolder = sourcePath.includes('/') ? sourcePath.substring(0, sourcePath.lastIndexOf('/')) : '';
+		const segments: string[] = linkpath.startsWith('/') || !sourceFolder ? [] : sourceFolder.split('/');
+
+		for (const segment of linkpath.split('/')) {
+			if (segment === '..') {
+				segments.pop();
+			} else if (segment && segment !== '.') {
+				segments.push(segment);
+			}
+		}
+
+		const candidate = normalizePath(segments.join('/'));
+		const file = this.app.vault.getAbstractFileByPath(candidate)
+			?? this.app.vault.getAbstractFileByPath(`${candidate}.md`);
+
+		return file instanceof TFile ? file : null;
+	}
+
+	private decodeDestination(destination: string): string {
+		try {
+			return decodeURIComponent(destination);
+		} catch {
+			return destination;
+		}
+	}
+
+	private getLineNumber(content: string, offset: number): number {
+		let line = 1;
+		for (let i = 0; i < offset && i < content.length; i++) {
+			if (content.charCodeAt(i) === 10) {
+				line++;
+			}
+		}
+		return line;
+	}
+}
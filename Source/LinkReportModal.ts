@@ -0,0 +1,65 @@
+import { App, Modal } from 'obsidian';
+import { LinkFinding } from './types';
+
+const KIND_LABELS: Record<LinkFinding['kind'], string> = {
+	unresolved: 'Unresolved',
+	excluded: 'Excluded',
+	unpublished: 'publish: false',
+	depth: 'Beyond max depth',
+	deselected: 'Deselected',
+	'not-included': 'Not included',
+	ambiguous: 'Ambiguous'
+};
+
+/**
+ * Modal that lists link validation findings grouped by source note.
+ * Clicking a finding opens the note at the offending line.
+ */
+export class LinkReportModal extends Modal {
+	private title: string;
+	private findings: LinkFinding[];
+
+	constructor(app: App, title: string, findings: LinkFinding[]) {
+		super(app);
+		this.title = title;
+		this.findings = findings;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.addClass('ns-publish-link-report');
+
+		contentEl.createEl('h2', { text: this.title });
+		contentEl.createEl('p', { text: `${this.findings.length} link issue(s) found` });
+
+		const listEl = contentEl.createDiv({ cls: 'ns-publish-link-report-list' });
+		const sourcePaths = Array.from(new Set(this.findings.map(finding => finding.sourcePath)));
+
+		for (const sourcePath of sourcePaths) {
+			listEl.createEl('h4', { text: sourcePath });
+			const itemsEl = listEl.createEl('ul');
+
+			this.findings
+				.filter(finding => finding.sourcePath === sourcePath)
+				.forEach(finding => {
+					const itemEl = itemsEl.createEl('li', { cls: `ns-publish-link-finding is-${finding.kind}` });
+					itemEl.createSpan({ cls: 'ns-publish-link-finding-kind', text: KIND_LABELS[finding.kind] });
+					itemEl.createSpan({ text: ` Line ${finding.line}: ` });
+					itemEl.createEl('code', { text: finding.link });
+					itemEl.createDiv({ cls: 'ns-publish-link-finding-message', text: finding.message });
+					itemEl.addEventListener('click', () => this.openFinding(finding));
+				});
+		}
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private async openFinding(finding: LinkFinding): Promise<void> {
+		this.close();
+		await this.app.workspace.openLinkText(finding.sourcePath, '', false, {
+			eState: { line: finding.line - 1 }
+		});
+	}
+}
@@ -0,0 +1,240 @@
+import { App, TFile } from 'obsidian';
+import { NSPublishSettings, ParsedLink, LinkRewrite } from './types';
+import { LinkExtractor } from './LinkExtractor';
+
+const IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'gif', 'webp', 'svg', 'bmp', 'avif'];
+
+export interface LinkRewriteContext {
+	/** Target path of the published copy being rewritten */
+	targetPath: string;
+	/** Source path to target path of every file in this publish */
+	publishedPaths: Map<string, string>;
+	/** Target paths of images generated for this note, which aren't in the vault when publishing outside it */
+	generatedPaths?: string[];
+	/** Builds the external URL used for links to unpublished notes */
+	getExternalUrl: (file: TFile) => string | null;
+}
+
+/**
+ * Rewrites links inside published copies so they match the published layout
+ */
+export class LinkRewriter {
+	private app: App;
+	private settings: NSPublishSettings;
+	private linkExtractor: LinkExtractor;
+
+	constructor(app: App, settings: NSPublishSettings) {
+		this.app = app;
+		this.settings = settings;
+		this.linkExtractor = new LinkExtractor(app);
+	}
+
+	/**
+	 * Rewrite links to published files to their target names and apply
+	 * the unpublished link policy to links to notes that were not published
+	 * @param content Content of the published copy
+	 * @param sourceFile The source note the content was copied from
+	 * @param context Layout of the current publish
+	 * @returns Rewritten content and every link that was changed
+	 */
+	rewriteLinks(content: string, sourceFile: TFile, context: LinkRewriteContext): { content: string; rewrites: LinkRewrite[] } {
+		const links = this.linkExtractor.extractLinks(content);
+		const rewrites: LinkRewrite[] = [];
+		let rewrittenContent = content;
+
+		// Replace from the end so earlier link positions stay valid
+		for (const link of links.reverse()) {
+			const linkedFile = this.linkExtractor.resolveLink(link, sourceFile.path);
+			const convertsWikilink = this.settings.outputDialect === 'commonmark' && link.syntax === 'wikilink';
+			const publishedPath = linkedFile ? context.publishedPaths.get(linkedFile.path) : undefined;
+			let replacement: string | null = null;
+
+			if (!link.linkpath) {
+				// Links within the same note, like [[#Heading]], point at a heading anchor of the published copy
+				replacement = convertsWikilink ? this.toSameNoteLink(link) : null;
+			} else if (!linkedFile) {
+				const generatedPath = context.generatedPaths?.find(path => path.endsWith(`/${link.linkpath}`));
+				if (convertsWikilink && generatedPath) {
+					replacement = this.toMarkdownLink(link, link.linkpath, this.getRelativePath(context.targetPath, generatedPath));
+				} else {
+					// Portable markdown has nowhere to point a broken wikilink, so keep its text
+					replacement = convertsWikilink ? this.getLinkText(link) : null;
+				}
+			} else if (publishedPath) {
+				replacement = convertsWikilink
+					? this.toMarkdownLink(link, linkedFile.name, this.getRelativePath(context.targetPath, publishedPath))
+					: this.rewriteToPublishedPath(link, linkedFile, publishedPath, context.targetPath);
+			} else if (linkedFile.extension === 'md') {
+				replacement = this.rewriteUnpublishedLink(link, linkedFile, context);
+			} else if (convertsWikilink) {
+				// Files generated into the target folder, such as exported drawings, are published where they are
+				replacement = linkedFile.path.startsWith(`${this.settings.targetFolderPath}/`)
+					? this.toMarkdownLink(link, linkedFile.name, this.getRelativePath(context.targetPath, linkedFile.path))
+					: this.getLinkText(link);
+			}
+
+			if (replacement === null || replacement === link.original) {
+				continue;
+			}
+
+			rewrittenContent = rewrittenContent.substring(0, link.position.start)
+				+ replacement
+				+ rewrittenContent.substring(link.position.end);
+
+			rewrites.unshift({
+				sourcePath: sourceFile.path,
+				line: link.position.line,
+				from: link.original,
+				to: replacement
+			});
+		}
+
+		return { content: rewrittenContent, rewrites };
+	}
+
+	/**
+	 * Point a link at the published copy of its target
+	 */
+	private rewriteToPublishedPath(link: ParsedLink, linkedFile: TFile, publishedPath: string, targetPath: string): string | null {
+		const embedPrefix = link.isEmbed ? '!' : '';
+
+		if (link.syntax === 'markdown') {
+			const relativePath = this.getRelativePath(targetPath, publishedPath);
+			if (relativePath === link.linkpath) {
+				return null;
+			}
+
+			const destination = relativePath.split('/').map(segment => encodeURIComponent(segment)).join('/');
+			const title = link.title ? ` "${link.title}"` : '';
+			return `${embedPrefix}[${link.displayText ?? ''}](${destination}${link.subpath}${title})`;
+		}
+
+		// Wikilinks resolve by name, so they only need rewriting when the published name or folder changed
+		const publishedName = publishedPath.substring(publishedPath.lastIndexOf('/') + 1);
+		const publishedBasename = linkedFile.extension === 'md' ? publishedName.replace(/\.md$/, '') : publishedName;
+		const writtenName = link.linkpath.substring(link.linkpath.lastIndexOf('/') + 1);
+		if (!link.linkpath.includes('/') && publishedBasename === writtenName) {
+			return null;
+		}
+
+		let newLinkpath = this.getPathInTargetFolder(publishedPath);
+		if (linkedFile.extension === 'md') {
+			newLinkpath = newLinkpath.replace(/\.md$/, '');
+		}
+		if (newLinkpath === link.linkpath) {
+			return null;
+		}
+
+		// Keep the text readers saw before the link target changed
+		const displayText = link.displayText ?? (link.isEmbed ? undefined : `${link.linkpath}${link.subpath}`);
+		const alias = displayText ? `|${displayText}` : '';
+		return `${embedPrefix}[[${newLinkpath}${link.subpath}${alias}]]`;
+	}
+
+	/**
+	 * Write a wikilink as a CommonMark link or image
+	 * @param fileName Name of the linked file, with extension
+	 * @param relativePath Path of the target relative to the published copy
+	 */
+	private toMarkdownLink(link: ParsedLink, fileName: string, relativePath: string): string {
+		const destination = relativePath.split('/').map(segment => encodeURIComponent(segment)).join('/');
+		const anchor = this.toAnchor(link.subpath);
+		const extensionIndex = fileName.lastIndexOf('.');
+		const extension = extensionIndex === -1 ? '' : fileName.substring(extensionIndex + 1).toLowerCase();
+		const basename = extensionIndex === -1 ? fileName : fileName.substring(0, extensionIndex);
+
+		if (link.isEmbed && IMAGE_EXTENSIONS.includes(extension)) {
+			// Image aliases are often sizes like 300 or 300x200, which make poor alt text
+			const alt = link.displayText && !/^\d+(x\d+)?$/.test(link.displayText) ? link.displayText : basename;
+			return `![${alt}](${destination})`;
+		}
+
+		const text = link.displayText ?? (extension === 'md' ? `${link.linkpath}${link.subpath}` : fileName);
+		return `[${text}](${destination}${anchor})`;
+	}
+
+	/**
+	 * Write a same-note wikilink as a CommonMark anchor link. Block references and embeds can't be
+	 * written as one, so only their text is kept.
+	 */
+	private toSameNoteLink(link: ParsedLink): string {
+		const headings = link.subpath.substring(1).split('#');
+		const text = link.displayText || headings[headings.length - 1];
+		const anchor = this.toAnchor(link.subpath);
+
+		return anchor && !link.isEmbed ? `[${text}](${anchor})` : text;
+	}
+
+	/**
+	 * Turn an Obsidian subpath into a GitHub-style heading anchor. Block references have no equivalent.
+	 */
+	private toAnchor(subpath: string): string {
+		if (!subpath || subpath.startsWith('#^')) {
+			return '';
+		}
+
+		const headings = subpath.substring(1).split('#');
+		const slug = headings[headings.length - 1]
+			.trim()
+			.toLowerCase()
+			.replace(/[^\p{L}\p{N}\s_-]/gu, '')
+			.replace(/\s/g, '-');
+		return slug ? `#${slug}` : '';
+	}
+
+	/**
+	 * Get the text a reader sees for a link
+	 */
+	private getLinkText(link: ParsedLink): string {
+		return link.displayText || link.linkpath.substring(link.linkpath.lastIndexOf('/') + 1);
+	}
+
+	/**
+	 * Apply the configured policy to a link whose target note was not published
+	 */
+	private rewriteUnpublishedLink(link: ParsedLink, linkedFile: TFile, context: LinkRewriteContext): string | null {
+		const policy = this.settings.unpublishedLinkPolicy;
+		if (policy === 'keep') {
+			return null;
+		}
+
+		const text = link.displayText || linkedFile.basename;
+
+		if (policy === 'url') {
+			const url = context.getExternalUrl(linkedFile);
+			if (url) {
+				return link.syntax === 'frontmatter' ? url : `[${text}](${url})`;
+			}
+		}
+
+		return text;
+	}
+
+	/**
+	 * Get a published path relative to the target folder, which is how wikilinks address published notes
+	 */
+	private getPathInTargetFolder(publishedPath: string): string {
+		const prefix = `${this.settings.targetFolderPath}/`;
+		return publishedPath.startsWith(prefix) ? publishedPath.substring(prefix.length) : publishedPath;
+	}
+
+	/**
+	 * Get the path of one vault file relative to the folder of another
+	 */
+	private getRelativePath(fromPath: string, toPath: string): string {
+		const fromParts = fromPath.split('/').slice(0, -1);
+		const toParts = toPath.split('/');
+
+		let common = 0;
+		while (common < fromParts.length && common < toParts.length - 1 && fromParts[common] === toParts[common]) {
+			common++;
+		}
+
+		const upLevels = fromParts.slice(common).map(() => '..');
+		return [...upLevels, ...toParts.slice(common)].join('/');
+	}
+
+	updateSettings(newSettings: NSPublishSettings): void {
+		this.settings = newSettings;
+	}
+}
@@ -0,0 +1,204 @@
+import { App, TFile } from 'obsidian';
+import { NSPublishSettings, LinkFinding, ParsedLink } from './types';
+import { LinkExtractor } from './LinkExtractor';
+import { WikilinkParser } from './WikilinkParser';
+import { DirectiveReader } from './DirectiveReader';
+import { Redactor } from './Redactor';
+import { Transcluder } from './Transcluder';
+
+/**
+ * Finds broken, ambiguous and cut-off links in the notes of a publish
+ */
+export class LinkValidator {
+	private app: App;
+	private settings: NSPublishSettings;
+	private linkExtractor: LinkExtractor;
+	private wikilinkParser: WikilinkParser;
+	private directiveReader: DirectiveReader;
+	private redactor: Redactor;
+	private transcluder: Transcluder;
+
+	constructor(app: App, settings: NSPublishSettings) {
+		this.app = app;
+		this.settings = settings;
+		this.linkExtractor = new LinkExtractor(app);
+		this.wikilinkParser = new WikilinkParser(app, settings);
+		this.directiveReader = new DirectiveReader(app);
+		this.redactor = new Redactor(app, settings);
+		this.transcluder = new Transcluder(app, settings);
+	}
+
+	/**
+	 * Validate the links of every note in a publish set
+	 * @param notes The notes that would be published
+	 * @param followsLinks Whether the publish follows links, so unpublished link targets are worth reporting
+	 * @param depthLimitedPaths Notes the maximum link depth cut off while collecting the publish set
+	 * @param deselectedPaths Notes unticked in the publish preview
+	 * @returns Findings ordered by note and line
+	 */
+	async validate(
+		notes: TFile[],
+		followsLinks: boolean,
+		depthLimitedPaths: Set<string> = new Set(),
+		deselectedPaths: Set<string> = new Set()
+	): Promise<LinkFinding[]> {
+		const findings: LinkFinding[] = [];
+		const publishedPaths = new Set(notes.map(note => note.path));
+		const leftOut = { depthLimitedPaths, deselectedPaths };
+		const nameIndex = this.buildNameIndex();
+
+		for (const note of notes) {
+			let content: string;
+			try {
+				content = await this.app.vault.read(note);
+			} catch (error) {
+				console.error(`Error reading ${note.path} for link validation:`, error);
+				continue;
+			}
+
+			const checksPublishSet = followsLinks && this.directiveReader.read(note).followLinks;
+			// Links are read from the original content so their lines match the note, but redacted
+			// links never reach readers, so they can't be broken for them
+			const redactedRanges = this.redactor.findRedactedRanges(content);
+
+			for (const link of this.linkExtractor.extractLinks(content)) {
+				if (!link.linkpath || redactedRanges.some(range => link.position.start >= range.start && link.position.start < range.end)) {
+					continue;
+				}
+
+				// An inlined note isn't linked any more, but the links inside it are, on the embed's line
+				const inlinedLinks = await this.getInlinedLinks(link, note);
+				if (inlinedLinks) {
+					for (const inlinedLink of inlinedLinks) {
+						const finding = await this.checkLink(inlinedLink, note, nameIndex, checksPublishSet ? publishedPaths : null, leftOut);
+						if (finding) {
+							finding.message = `${finding.message} (in embedded ${link.linkpath})`;
+							findings.push(finding);
+						}
+					}
+					continue;
+				}
+
+				const finding = await this.checkLink(link, note, nameIndex, checksPublishSet ? publishedPaths : null, leftOut);
+				if (finding) {
+					findings.push(finding);
+				}
+			}
+		}
+
+		return findings;
+	}
+
+	/**
+	 * Get the links a note embed brings in when embedded notes are inlined
+	 * @returns The links, placed on the embed's line, or null when the link isn't replaced by inlined content
+	 */
+	private async getInlinedLinks(link: ParsedLink, note: TFile): Promise<ParsedLink[] | null> {
+		if (!this.settings.flattenTransclusions || !link.isEmbed || link.syntax === 'frontmatter') {
+			return null;
+		}
+
+		const inlined = (await this.transcluder.flatten(link.original, note)).content;
+		if (inlined === link.original) {
+			return null;
+		}
+
+		return this.linkExtractor.extractLinks(inlined)
+			.filter(inlinedLink => inlinedLink.linkpath)
+			.map(inlinedLink => ({ ...inlinedLink, position: { ...inlinedLink.position, line: link.position.line } }));
+	}
+
+	private async checkLink(
+		link: ParsedLink,
+		note: TFile,
+		nameIndex: Map<string, TFile[]>,
+		publishedPaths: Set<string> | null,
+		leftOut: { depthLimitedPaths: Set<string>; deselectedPaths: Set<string> }
+	): Promise<LinkFinding | null> {
+		const createFinding = (kind: LinkFinding['kind'], message: string): LinkFinding => ({
+			kind,
+			sourcePath: note.path,
+			line: link.position.line,
+			link: link.original,
+			message
+		});
+
+		const target = this.linkExtractor.resolveLink(link, note.path);
+		if (!target) {
+			return createFinding('unresolved', `"${link.linkpath}" does not match any file`);
+		}
+
+		const candidates = this.getNameCandidates(link, nameIndex);
+		if (candidates.length > 1) {
+			return createFinding(
+				'ambiguous',
+				`"${link.linkpath}" matches ${candidates.length} files (${candidates.map(file => file.path).join(', ')}); resolves to ${target.path}`
+			);
+		}
+
+		if (!publishedPaths || target.extension !== 'md' || publishedPaths.has(target.path)) {
+			return null;
+		}
+
+		if (await this.wikilinkParser.isExcalidrawFile(target, note)) {
+			return null;
+		}
+
+		if (this.wikilinkParser.isExcludedLink(link.linkpath, target)) {
+			return createFinding('excluded', `${target.path} matches an exclude pattern and will not be published`);
+		}
+
+		if (!this.directiveReader.read(target).publish) {
+			return createFinding('unpublished', `${target.path} is marked publish: false`);
+		}
+
+		if (leftOut.deselectedPaths.has(target.path)) {
+			return createFinding('deselected', `${target.path} is unticked in the publish preview and will not be published`);
+		}
+
+		if (leftOut.depthLimitedPaths.has(target.path)) {
+			return createFinding('depth', `${target.path} is beyond the maximum link depth and will not be published`);
+		}
+
+		return createFinding('not-included', `${target.path} is not part of this publish and will not be published`);
+	}
+
+	/**
+	 * Get the files a name-only link could mean. Links with a folder path are never ambiguous.
+	 */
+	private getNameCandidates(link: ParsedLink, nameIndex: Map<string, TFile[]>): TFile[] {
+		if (link.linkpath.includes('/')) {
+			return [];
+		}
+
+		return nameIndex.get(link.linkpath.toLowerCase()) || [];
+	}
+
+	/**
+	 * Index vault files by lowercase name, and markdown files by lowercase basename too
+	 */
+	private buildNameIndex(): Map<string, TFile[]> {
+		const index = new Map<string, TFile[]>();
+		const addToIndex = (key: string, file: TFile) => {
+			const files = index.get(key) || [];
+			files.push(file);
+			index.set(key, files);
+		};
+
+		for (const file of this.app.vault.getFiles()) {
+			addToIndex(file.name.toLowerCase(), file);
+			if (file.extension === 'md') {
+				addToIndex(file.basename.toLowerCase(), file);
+			}
+		}
+
+		return index;
+	}
+
+	updateSettings(newSettings: NSPublishSettings): void {
+		this.settings = newSettings;
+		this.wikilinkParser.updateSettings(newSettings);
+		this.redactor.updateSettings(newSettings);
+		this.transcluder.updateSettings(newSettings);
+	}
+}
@@ -1,19 +1,59 @@
-import { App, TFile, Notice } from 'obsidian';
-import { NSPublishSettings, PublishResult, PublishOptions } from './types';
+import { App, TFile, Notice, Platform } from 'obsidian';
+import { NSPublishSettings, PublishResult, PublishOptions, PublishPlanEntry, PublishRoot, LinkFinding } from './types';
 import { WikilinkParser } from './WikilinkParser';
 import { ExcalidrawUtil } from './ExcalidrawUtil';
+import { CanvasUtil } from './CanvasUtil';
+import { LinkRewriter } from './LinkRewriter';
+import { DirectiveReader } from './DirectiveReader';
+import { Redactor } from './Redactor';
+import { Transcluder } from './Transcluder';
+import { DialectConverter } from './DialectConverter';
+import { PublishManifest } from './PublishManifest';
+import { Slugger } from './Slugger';
+import { LinkValidator } from './LinkValidator';
+import { PublishOutput, createPublishOutput, isAbsoluteDirectory, writesToFileSystem } from './PublishOutput';
+
+interface CollectedNote {
+	file: TFile;
+	depth: number;
+	linkedFrom: string | null;
+}
 
 export class NoteCopier {
 	private app: App;
 	private settings: NSPublishSettings;
 	private wikilinkParser: WikilinkParser;
 	private excalidrawUtil: ExcalidrawUtil;
+	private canvasUtil: CanvasUtil;
+	private linkRewriter: LinkRewriter;
+	private directiveReader: DirectiveReader;
+	private redactor: Redactor;
+	private transcluder: Transcluder;
+	private dialectConverter: DialectConverter;
+	private manifest: PublishManifest;
+	private slugger: Slugger;
+	private linkValidator: LinkValidator;
+	private output: PublishOutput;
+	// Publishes, previews and removals share the manifest and the output's pending changes, so they run one at a time
+	private queue: Promise<unknown> = Promise.resolve();
 
 	constructor(app: App, settings: NSPublishSettings) {
 		this.app = app;
 		this.settings = settings;
 		this.wikilinkParser = new WikilinkParser(app, settings);
 		this.excalidrawUtil = new ExcalidrawUtil(app);
+		this.canvasUtil = new CanvasUtil(app);
+		this.linkRewriter = new LinkRewriter(app, settings);
+		this.directiveReader = new DirectiveReader(app);
+		this.redactor = new Redactor(app, settings);
+		this.transcluder = new Transcluder(app, settings);
+		this.dialectConverter = new DialectConverter(app, settings);
+		this.manifest = new PublishManifest(app, settings);
+		this.excalidrawUtil.setManifest(this.manifest);
+		this.canvasUtil.setManifest(this.manifest);
+		this.slugger = new Slugger(app, settings);
+		this.linkValidator = new LinkValidator(app, settings);
+		this.setOutput(createPublishOutput(app, settings));
 	}
 
 	/**
@@ -23,46 +63,109 @@ export class NoteCopier {
 	 * @returns PublishResult with details of the operation
 	 */
 	async publishNote(file: TFile, options: PublishOptions = { includeLinked: true }): Promise<PublishResult> {
-		const result: PublishResult = {
-			publishedFiles: new Set(),
-			skippedFiles: new Set(),
-			errors: []
-		};
+		return this.publishNotes([file], options);
+	}
+
+	/**
+	 * Publish several notes in one run. Notes they share are collected and written once,
+	 * and the result covers all of them.
+	 * @param files - The notes to publish; notes that can't be published are skipped with the reason
+	 * @param options - Publishing options
+	 * @returns PublishResult with details of the operation
+	 */
+	async publishNotes(files: TFile[], options: PublishOptions = { includeLinked: true }): Promise<PublishResult> {
+		return this.exclusive(() => this.publishRoots(files, options));
+	}
+
+	private async publishRoots(files: TFile[], options: PublishOptions): Promise<PublishResult> {
+		const result = this.createResult();
+		const roots: TFile[] = [];
 
 		// Validate prerequisites
-		const validation = this.validatePublishPrerequisites(file);
-		if (!validation.isValid) {
-			result.errors.push(validation.error || 'Unknown validation error');
+		for (const file of files) {
+			const validation = this.validatePublishPrerequisites(file);
+			if (validation.isValid) {
+				roots.push(file);
+			} else if (files.length === 1) {
+				result.errors.push(validation.error || 'Unknown validation error');
+				return result;
+			} else {
+				result.skippedFiles.set(file.path, validation.error || 'Unknown validation error');
+			}
+		}
+
+		if (roots.length === 0) {
+			result.errors.push('None of the notes can be published');
 			return result;
 		}
 
-		const progressNotice = new Notice('Publishing note...', 0);
+		if (this.settings.linkValidationMode !== 'ignore') {
+			result.linkFindings = await this.validateNotes(roots, options);
 
-		try {
-			if (options.includeLinked) {
-				await this.publishNoteWithLinks(file, result, options);
-			} else {
-				await this.publishSingleNote(file, result);
+			if (result.linkFindings.length > 0) {
+				console.warn(`Found ${result.linkFindings.length} link issue(s):`, result.linkFindings);
+
+				if (this.settings.linkValidationMode === 'block') {
+					result.blockedByValidation = true;
+					result.errors.push(`Publishing blocked by ${result.linkFindings.length} link issue(s)`);
+					return result;
+				}
+
+				if (!options.quiet) {
+					new Notice(`Found ${result.linkFindings.length} link issue(s). Check console for details.`);
+				}
 			}
+		}
+
+		const progressNotice = options.quiet
+			? null
+			: new Notice(roots.length === 1 ? 'Publishing note...' : `Publishing ${roots.length} notes...`, 0);
+		// Whether the output took everything, e.g. every upload and the commit succeeded
+		let delivered = false;
 
-			progressNotice.hide();
-			new Notice(`Successfully published ${result.publishedFiles.size} file(s)`);
+		try {
+			await this.manifest.load();
+
+			const notes = await this.collectPublishNotes(roots, result, options);
+			await this.copyPublishSet(notes, result, options);
+
+			roots.forEach(root => this.manifest.addRoot(root.path, { includeLinked: options.includeLinked, maxDepth: options.maxDepth }));
+			result.orphanedFiles = this.manifest.findOrphans();
+			await this.manifest.save();
+			const flushErrors = roots.length === 1
+				? await this.output.flush('Publish', roots[0].path)
+				: await this.output.flush(`Publish ${roots.length} notes`);
+			result.errors.push(...flushErrors);
+			delivered = flushErrors.length === 0;
+
+			if (progressNotice) {
+				progressNotice.hide();
+				const attachmentSummary = result.publishedAttachments.size > 0
+					? ` and ${result.publishedAttachments.size} attachment(s)`
+					: '';
+				const unchangedSummary = result.unchangedFiles.size > 0
+					? ` (${result.unchangedFiles.size} unchanged)`
+					: '';
+				new Notice(`Successfully published ${result.publishedFiles.size} file(s)${attachmentSummary}${unchangedSummary}`);
+			}
 
 			if (result.errors.length > 0) {
 				console.warn('Publishing completed with errors:', result.errors);
 			}
 
 		} catch (error) {
-			progressNotice.hide();
 			const errorMessage = `Error publishing note: ${error.message}`;
 			result.errors.push(errorMessage);
-			new Notice(errorMessage);
+			if (progressNotice) {
+				progressNotice.hide();
+				new Notice(errorMessage);
+			}
 			console.error('Publishing error:', error);
 		}
 
-		// Copy URL to clipboard if files were published
-		if (result.publishedFiles.size > 0) {
-			const publishedUrl = this.generatePublishedUrl(file);
+		// Copy URL to clipboard once the note is actually where the URL points
+		if (delivered && !options.quiet && roots.length === 1 && result.publishedFiles.has(roots[0].path)) {
+			const publishedUrl = this.generatePublishedUrl(roots[0]);
 			if (publishedUrl) {
 				await navigator.clipboard.writeText(publishedUrl);
 				new Notice(`URL copied to clipboard: ${publishedUrl}`);
@@ -72,63 +175,155 @@ export class NoteCopier {
 		return result;
 	}
 
+	private createResult(): PublishResult {
+		return {
+			publishedFiles: new Set(),
+			publishedAttachments: new Set(),
+			skippedFiles: new Map(),
+			rewrittenLinks: [],
+			redactions: [],
+			unchangedFiles: new Set(),
+			orphanedFiles: [],
+			linkFindings: [],
+			blockedByValidation: false,
+			errors: []
+		};
+	}
+
 	/**
-	 * Publish a single note without following links
+	 * Collect the notes a publish of these roots writes: just the roots, or the roots and the notes they link to.
+	 * Each root is walked with its own depth, so a note linked from several roots is collected once
+	 * but within the depth limit of whichever root reaches it closest.
+	 * @param depthLimitedPaths Receives the notes the maximum link depth cut off
 	 */
-	private async publishSingleNote(file: TFile, result: PublishResult): Promise<void> {
-		try {
-			await this.copyFileToTarget(file);
-			result.publishedFiles.add(file.path);
-		} catch (error) {
-			result.errors.push(`Failed to copy ${file.path}: ${error.message}`);
+	private async collectPublishNotes(
+		roots: TFile[],
+		result: PublishResult,
+		options: PublishOptions,
+		depthLimitedPaths: Set<string> = new Set()
+	): Promise<TFile[]> {
+		if (!options.includeLinked) {
+			return roots;
+		}
+
+		const notes: TFile[] = [];
+		for (const root of roots) {
+			const collected = await this.collectLinkedNotes(root, result, options, depthLimitedPaths);
+			collected
+				.filter(note => !notes.includes(note.file))
+				.forEach(note => notes.push(note.file));
 		}
+
+		// A note skipped while walking one root can still be collected from another
+		notes.forEach(note => result.skippedFiles.delete(note.path));
+
+		return notes;
 	}
 
 	/**
-	 * Publish a note and all its linked notes recursively
+	 * Collect a note and the notes it links to, recursively
+	 * @param depthLimitedPaths Receives the notes the maximum link depth cut off
 	 */
-	private async publishNoteWithLinks(
-		file: TFile, 
-		result: PublishResult, 
-		options: PublishOptions
-	): Promise<void> {
+	private async collectLinkedNotes(
+		file: TFile,
+		result: PublishResult,
+		options: PublishOptions,
+		depthLimitedPaths: Set<string> = new Set()
+	): Promise<CollectedNote[]> {
 		const maxDepth = options.maxDepth || this.settings.maxDepth;
-		const visited = new Set<string>();
+		const visited = new Map<string, number>();
 		const processing = new Set<string>();
+		const notes: CollectedNote[] = [];
+
+		await this.publishNoteRecursively(file, result, visited, processing, depthLimitedPaths, 0, maxDepth, notes, null);
+
+		// Skipped notes that were reached again within the depth limit are still published
+		notes.forEach(note => result.skippedFiles.delete(note.file.path));
+
+		return notes;
+	}
+
+	/**
+	 * Collect the source paths of every note and attachment a publish of this note would include
+	 */
+	private async collectPublishSetPaths(file: TFile, options: PublishOptions): Promise<Set<string>> {
+		const notes = options.includeLinked
+			? (await this.collectLinkedNotes(file, this.createResult(), options)).map(note => note.file)
+			: [file];
+		const attachments = await this.collectAttachments(notes);
 
-		await this.publishNoteRecursively(file, result, visited, processing, 0, maxDepth);
+		return new Set([...notes, ...attachments].map(linkedFile => linkedFile.path));
+	}
+
+	/**
+	 * Collect the attachments referenced by a set of notes
+	 */
+	private async collectAttachments(notes: TFile[]): Promise<TFile[]> {
+		const attachments: TFile[] = [];
+		for (const note of notes) {
+			for (const attachment of await this.wikilinkParser.getLinkedAttachments(note)) {
+				if (!attachments.includes(attachment)) {
+					attachments.push(attachment);
+				}
+			}
+		}
+		return attachments;
 	}
 
 	/**
-	 * Recursively publish notes and their links
+	 * Recursively collect notes to publish by following their links
+	 * @param visited Remaining link depth each note was walked with. A note reached again with more
+	 * depth left is walked again, so links cut off on a longer path are still followed.
 	 */
 	private async publishNoteRecursively(
 		file: TFile,
 		result: PublishResult,
-		visited: Set<string>,
+		visited: Map<string, number>,
 		processing: Set<string>,
+		depthLimitedPaths: Set<string>,
 		depth: number,
-		maxDepth: number
+		maxDepth: number,
+		notes: CollectedNote[],
+		linkedFrom: string | null
 	): Promise<void> {
 		const filePath = file.path;
 
-		// Skip if already processed or being processed (cycle detection)
-		if (visited.has(filePath) || processing.has(filePath)) {
+		// Skip if being processed (cycle detection) or already walked with at least as much depth left
+		const visitedDepth = visited.get(filePath);
+		if (processing.has(filePath) || (visitedDepth !== undefined && visitedDepth >= maxDepth - depth)) {
+			return;
+		}
+
+		const directives = this.directiveReader.read(file);
+		if (!directives.publish) {
+			result.skippedFiles.set(filePath, 'Marked publish: false in frontmatter');
 			return;
 		}
 
 		if (depth > maxDepth) {
-			result.skippedFiles.add(filePath);
+			result.skippedFiles.set(filePath, `Beyond maximum link depth (${maxDepth})`);
+			depthLimitedPaths.add(filePath);
 			return;
 		}
 
 		processing.add(filePath);
 
 		try {
-			await this.copyFileToTarget(file);
-			result.publishedFiles.add(filePath);
+			const collected = notes.find(note => note.file === file);
+			if (!collected) {
+				notes.push({ file, depth, linkedFrom });
+			} else if (depth < collected.depth) {
+				collected.depth = depth;
+				collected.linkedFrom = linkedFrom;
+			}
 
-			const linkedFiles = await this.wikilinkParser.getLinkedFiles(file);
+			if (!directives.followLinks) {
+				return;
+			}
+
+			// publish-depth restarts the depth budget from this note
+			const childMaxDepth = directives.depth !== undefined ? depth + directives.depth : maxDepth;
+			const linkedFiles = await this.wikilinkParser.getLinkedFiles(file, result.skippedFiles);
 
 			for (const linkedFile of linkedFiles) {
 				await this.publishNoteRecursively(
@@ -136,8 +331,11 @@ export class NoteCopier {
 					result,
 					visited,
 					processing,
+					depthLimitedPaths,
 					depth + 1,
-					maxDepth
+					childMaxDepth,
+					notes,
+					filePath
 				);
 			}
 
@@ -147,33 +345,132 @@ export class NoteCopier {
 			console.error(errorMsg, error);
 		} finally {
 			processing.delete(filePath);
-			visited.add(filePath);
+			visited.set(filePath, maxDepth - depth);
+		}
+	}
+
+	/**
+	 * Copy the notes of a publish and the attachments they reference.
+	 * The whole set is known up front so links can be rewritten to the published layout.
+	 */
+	private async copyPublishSet(allNotes: TFile[], result: PublishResult, options: PublishOptions): Promise<void> {
+		this.excalidrawUtil.resetRun();
+		this.canvasUtil.resetRun();
+
+		let notes = allNotes;
+		let attachments = await this.collectAttachments(allNotes);
+
+		// Files unticked in the publish preview are left out of this run only
+		const selectedPaths = options.selectedPaths;
+		if (selectedPaths) {
+			const isSelected = (file: TFile) => selectedPaths.has(file.path) || file === allNotes[0];
+			[...allNotes, ...attachments]
+				.filter(file => !isSelected(file))
+				.forEach(file => result.skippedFiles.set(file.path, 'Excluded in publish preview'));
+			notes = allNotes.filter(isSelected);
+			attachments = attachments.filter(isSelected);
+		}
+
+		// Files published by earlier runs keep their links working; links fall back to the unpublished link policy
+		// only for files that were never published
+		const publishedPaths = new Map<string, string>();
+		const entries = this.manifest.getEntries();
+		Object.keys(entries).forEach(sourcePath => publishedPaths.set(sourcePath, entries[sourcePath].targetPath));
+		notes.forEach(note => publishedPaths.set(note.path, this.getTargetPath(note)));
+		attachments.forEach(attachment => publishedPaths.set(attachment.path, this.getAttachmentTargetPath(attachment)));
+
+		for (const note of notes) {
+			try {
+				await this.copyFileToTarget(note, publishedPaths, result);
+				result.publishedFiles.add(note.path);
+			} catch (error) {
+				const errorMsg = `Error processing ${note.path}: ${error.message}`;
+				result.errors.push(errorMsg);
+				console.error(errorMsg, error);
+			}
+		}
+
+		for (const attachment of attachments) {
+			try {
+				await this.copyAttachmentToTarget(attachment, result);
+				result.publishedAttachments.add(attachment.path);
+			} catch (error) {
+				const errorMsg = `Error copying attachment ${attachment.path}: ${error.message}`;
+				result.errors.push(errorMsg);
+				console.error(errorMsg, error);
+			}
+		}
+	}
+
+	/**
+	 * Copy a binary attachment to its target location
+	 */
+	private async copyAttachmentToTarget(file: TFile, result: PublishResult): Promise<void> {
+		const data = await this.app.vault.readBinary(file);
+		const targetPath = this.getAttachmentTargetPath(file);
+		const hash = await PublishManifest.hash(data);
+
+		if (this.isUnchanged(file.path, targetPath, hash) && await this.output.exists(targetPath)) {
+			result.unchangedFiles.add(file.path);
+			return;
 		}
+
+		await this.output.write(targetPath, data);
+
+		this.manifest.set(file.path, { targetPath, hash, sourceHash: hash, images: [], publishedAt: Date.now() });
 	}
 
 	/**
-	 * Copy a file to the target folder within the vault and process Excalidraw content
+	 * Copy a file to the target folder, removing private content, optionally
+	 * inlining embedded notes, converting Excalidraw and canvas embeds to images, rewriting links to match
+	 * the published layout and converting to the output dialect
 	 */
-	private async copyFileToTarget(file: TFile): Promise<void> {
+	private async copyFileToTarget(file: TFile, publishedPaths: Map<string, string>, result: PublishResult): Promise<void> {
 		try {
-			const content = await this.app.vault.read(file);
 			const targetPath = this.getTargetPath(file);
+			const sourceContent = await this.app.vault.read(file);
+			const redacted = this.redactor.redact(sourceContent, file.path);
+			result.redactions.push(...redacted.redactions);
+			let noteContent = redacted.content;
+			if (this.settings.flattenTransclusions) {
+				const flattened = await this.transcluder.flatten(noteContent, file);
+				result.redactions.push(...flattened.redactions);
+				noteContent = flattened.content;
+			}
+			const usedImageCount = this.excalidrawUtil.getUsedImages().length;
+			const exportErrorCount = this.excalidrawUtil.getExportErrors().length;
+			const usedCanvasImageCount = this.canvasUtil.getUsedImages().length;
+			const canvasErrorCount = this.canvasUtil.getExportErrors().length;
+			const excalidrawContent = await this.processExcalidrawContent(noteContent, file);
+			const canvasContent = await this.processCanvasContent(excalidrawContent, file);
+			const images = [
+				...this.excalidrawUtil.getUsedImages().slice(usedImageCount),
+				...this.canvasUtil.getUsedImages().slice(usedCanvasImageCount)
+			];
+			result.errors.push(...this.excalidrawUtil.getExportErrors().slice(exportErrorCount));
+			result.errors.push(...this.canvasUtil.getExportErrors().slice(canvasErrorCount));
+			const rewritten = this.linkRewriter.rewriteLinks(canvasContent, file, {
+				targetPath,
+				publishedPaths,
+				generatedPaths: images,
+				getExternalUrl: (linkedFile: TFile) => this.generatePublishedUrl(linkedFile)
+			});
+			result.rewrittenLinks.push(...rewritten.rewrites);
+			const content = this.dialectConverter.convert(rewritten.content);
 
-			// Ensure target folder exists
-			await this.ensureTargetFolderExists(targetPath);
-
-			// Check if file already exists
-			const existingFile = this.app.vault.getAbstractFileByPath(targetPath);
-			let targetFile: TFile;
-			
-			if (existingFile instanceof TFile) {
-				await this.app.vault.modify(existingFile, content);
-				targetFile = existingFile;
-			} else {
-				targetFile = await this.app.vault.create(targetPath, content) as TFile;
+			// Skip the write when the published copy already has this exact content
+			const hash = await PublishManifest.hash(content);
+			const sourceHash = await PublishManifest.hash(sourceContent);
+			const entry = this.manifest.get(file.path);
+			if (entry && this.isUnchanged(file.path, targetPath, hash) && await this.output.exists(targetPath)) {
+				result.unchangedFiles.add(file.path);
+				this.manifest.set(file.path, { ...entry, sourceHash });
+				return;
 			}
 
-		await this.processExcalidrawContent(targetFile);
+			await this.output.write(targetPath, content);
+
+			this.manifest.set(file.path, { targetPath, hash, sourceHash, images, publishedAt: Date.now() });
 
 		} catch (error) {
 			throw new Error(`Failed to copy ${file.path}: ${error.message}`);
@@ -181,57 +478,482 @@ export class NoteCopier {
 	}
 
 	/**
-	 * Get the target path for a file within the vault
+	 * Work out what publishing a note would include, without writing anything
+	 * @param file The note to publish
+	 * @param options Publishing options
+	 * @returns Every note, attachment and drawing in the publish, in traversal order
 	 */
-	private getTargetPath(file: TFile): string {
-		const fileName = this.settings.addPublishPrefix 
-			? `${this.settings.publishPrefix}${file.name}` 
-			: file.name;
+	async planPublish(file: TFile, options: PublishOptions): Promise<PublishPlanEntry[]> {
+		return this.exclusive(() => this.buildPlan(file, options));
+	}
+
+	private async buildPlan(file: TFile, options: PublishOptions): Promise<PublishPlanEntry[]> {
+		await this.manifest.load();
+
+		const collected: CollectedNote[] = options.includeLinked
+			? await this.collectLinkedNotes(file, this.createResult(), options)
+			: [{ file, depth: 0, linkedFrom: null }];
+		const plan: PublishPlanEntry[] = [];
+		const seen = new Set<string>();
 
-		if (this.settings.preserveFolderStructure) {
-			// Preserve folder structure within target folder
-			const relativePath = file.parent ? file.parent.path : '';
-			return relativePath 
-				? `${this.settings.targetFolderPath}/${relativePath}/${fileName}`
-				: `${this.settings.targetFolderPath}/${fileName}`;
-		} else {
-			// Flat structure in target folder
-			return `${this.settings.targetFolderPath}/${fileName}`;
+		for (const note of collected) {
+			const targetPath = this.getTargetPath(note.file);
+			const sourceHash = await PublishManifest.hash(await this.app.vault.read(note.file));
+			plan.push({
+				...note,
+				kind: 'note',
+				size: note.file.stat.size,
+				targetPath,
+				targetStatus: await this.getTargetStatus(note.file.path, targetPath, sourceHash)
+			});
+			seen.add(note.file.path);
 		}
+
+		for (const note of collected) {
+			for (const attachment of await this.wikilinkParser.getLinkedAttachments(note.file)) {
+				if (seen.has(attachment.path)) {
+					continue;
+				}
+				seen.add(attachment.path);
+
+				const targetPath = this.getAttachmentTargetPath(attachment);
+				const sourceHash = await PublishManifest.hash(await this.app.vault.readBinary(attachment));
+				plan.push({
+					file: attachment,
+					kind: 'attachment',
+					depth: note.depth + 1,
+					linkedFrom: note.file.path,
+					size: attachment.stat.size,
+					targetPath,
+					targetStatus: await this.getTargetStatus(attachment.path, targetPath, sourceHash)
+				});
+			}
+
+			for (const drawing of await this.wikilinkParser.getLinkedDrawings(note.file)) {
+				if (seen.has(drawing.path)) {
+					continue;
+				}
+				seen.add(drawing.path);
+
+				plan.push({
+					file: drawing,
+					kind: 'drawing',
+					depth: note.depth + 1,
+					linkedFrom: note.file.path,
+					size: drawing.stat.size,
+					targetPath: null,
+					targetStatus: 'new'
+				});
+			}
+		}
+
+		return plan;
+	}
+
+	/**
+	 * Check the links of every note a publish would include
+	 * @param file The note to publish
+	 * @param options Publishing options
+	 * @returns Unresolved, ambiguous and cut-off links with their source note and line
+	 */
+	async validateLinks(file: TFile, options: PublishOptions): Promise<LinkFinding[]> {
+		return this.validateNotes([file], options);
+	}
+
+	/**
+	 * Check the links of every note a publish of several roots would include
+	 */
+	private async validateNotes(roots: TFile[], options: PublishOptions): Promise<LinkFinding[]> {
+		const depthLimitedPaths = new Set<string>();
+		const notes = await this.collectPublishNotes(roots, this.createResult(), options, depthLimitedPaths);
+		const selectedNotes = options.selectedPaths
+			? notes.filter(note => roots.includes(note) || options.selectedPaths?.has(note.path))
+			: notes;
+		const deselectedPaths = new Set(notes.filter(note => !selectedNotes.includes(note)).map(note => note.path));
+
+		return this.linkValidator.validate(selectedNotes, options.includeLinked, depthLimitedPaths, deselectedPaths);
 	}
 
 	/**
-	 * Ensure target folder exists, creating it if necessary
+	 * Compare a source file with its published copy using the manifest
 	 */
-	private async ensureTargetFolderExists(targetPath: string): Promise<void> {
-		const folderPath = targetPath.substring(0, targetPath.lastIndexOf('/'));
-		
-		if (!folderPath) {
-			return; // File is in root
+	private async getTargetStatus(sourcePath: string, targetPath: string, sourceHash: string): Promise<PublishPlanEntry['targetStatus']> {
+		if (!(await this.output.exists(targetPath))) {
+			return 'new';
 		}
 
-		const existingFolder = this.app.vault.getAbstractFileByPath(folderPath);
-		if (!existingFolder) {
-			// Create folder recursively
-			await this.createFolderRecursively(folderPath);
+		const entry = this.manifest.get(sourcePath);
+		if (!entry || entry.targetPath !== targetPath || entry.sourceHash !== sourceHash) {
+			return 'changed';
 		}
+
+		// The published copy may also have been edited by hand since
+		const targetData = targetPath.endsWith('.md')
+			? await this.output.read(targetPath)
+			: await this.output.readBinary(targetPath);
+		return entry.hash === await PublishManifest.hash(targetData) ? 'unchanged' : 'changed';
+	}
+
+	/**
+	 * Check whether the manifest says a file was already published to the same target with the same content
+	 */
+	private isUnchanged(sourcePath: string, targetPath: string, hash: string): boolean {
+		const entry = this.manifest.get(sourcePath);
+		return !!entry && entry.targetPath === targetPath && entry.hash === hash;
 	}
 
 	/**
-	 * Create folder recursively
+	 * Remove published files, such as confirmed orphans, and forget them in the manifest
+	 * @param targetPaths Paths of published files to delete
+	 * @returns Error messages for files that could not be removed
 	 */
-	private async createFolderRecursively(folderPath: string): Promise<void> {
-		const parts = folderPath.split('/');
-		let currentPath = '';
+	async removePublishedFiles(targetPaths: string[]): Promise<string[]> {
+		return this.exclusive(async () => {
+			const errors = await this.deletePublishedFiles(targetPaths);
+			errors.push(...await this.output.flush('Remove orphaned files'));
+			return errors;
+		});
+	}
+
+	/**
+	 * Delete published files and forget them in the manifest, without flushing the output
+	 */
+	private async deletePublishedFiles(targetPaths: string[]): Promise<string[]> {
+		const errors: string[] = [];
+		const removedPaths: string[] = [];
+		await this.manifest.load();
 
-		for (const part of parts) {
-			currentPath = currentPath ? `${currentPath}/${part}` : part;
-			
-			const existingFolder = this.app.vault.getAbstractFileByPath(currentPath);
-			if (!existingFolder) {
-				await this.app.vault.createFolder(currentPath);
+		for (const targetPath of targetPaths) {
+			try {
+				await this.output.remove(targetPath);
+				removedPaths.push(targetPath);
+			} catch (error) {
+				errors.push(`Failed to remove ${targetPath}: ${error.message}`);
 			}
 		}
+
+		this.manifest.forgetTargets(removedPaths);
+		await this.manifest.save();
+
+		return errors;
+	}
+
+	/**
+	 * Work out which published files unpublishing a note removes: the note's copy and generated
+	 * images, plus the linked notes and attachments no other published root still needs.
+	 * Copies and images that remaining published notes still use, such as a drawing embedded
+	 * in several notes, are kept.
+	 * @param file The note to unpublish
+	 * @returns Target paths to remove
+	 */
+	async getUnpublishTargets(file: TFile): Promise<string[]> {
+		return this.exclusive(() => this.collectUnpublishTargets(file));
+	}
+
+	private async collectUnpublishTargets(file: TFile): Promise<string[]> {
+		await this.manifest.load();
+		const roots = this.manifest.getRoots();
+		const ownRoot = roots[file.path] || { includeLinked: this.settings.includeLinkedNotes };
+		const ownPaths = await this.collectPublishSetPaths(file, ownRoot);
+
+		const neededPaths = new Set<string>();
+		for (const rootPath of Object.keys(roots)) {
+			const rootFile = this.app.vault.getAbstractFileByPath(rootPath);
+			if (rootPath === file.path || !(rootFile instanceof TFile)) {
+				continue;
+			}
+
+			const rootPaths = await this.collectPublishSetPaths(rootFile, roots[rootPath]);
+			rootPaths.forEach(path => neededPaths.add(path));
+		}
+
+		// The note itself stays published too when another root links to it
+		const removedSources = Array.from(ownPaths).filter(sourcePath => !neededPaths.has(sourcePath));
+
+		const retainedPaths = new Set<string>();
+		const entries = this.manifest.getEntries();
+		const drawings = this.manifest.getDrawings();
+		for (const sourcePath of Object.keys(entries)) {
+			const sourceFile = this.app.vault.getAbstractFileByPath(sourcePath);
+			if (removedSources.includes(sourcePath) || !(sourceFile instanceof TFile)) {
+				continue;
+			}
+
+			retainedPaths.add(entries[sourcePath].targetPath);
+			entries[sourcePath].images.forEach(image => retainedPaths.add(image));
+
+			if (sourceFile.extension === 'md') {
+				const drawingPaths = (await this.wikilinkParser.getLinkedDrawings(sourceFile)).map(drawing => drawing.path);
+				Object.keys(drawings)
+					.filter(exportKey => drawingPaths.includes(drawings[exportKey].drawingPath))
+					.forEach(exportKey => retainedPaths.add(drawings[exportKey].imagePath));
+			}
+		}
+
+		const targetPaths: string[] = [];
+		for (const sourcePath of removedSources) {
+			const entry = this.manifest.get(sourcePath);
+			if (entry) {
+				[entry.targetPath, ...entry.images]
+					.filter(path => !retainedPaths.has(path) && !targetPaths.includes(path))
+					.forEach(path => targetPaths.push(path));
+			}
+		}
+
+		return targetPaths;
+	}
+
+	/**
+	 * Remove a note's published files and stop treating it as a publish root
+	 * @param file The note to unpublish
+	 * @param targetPaths Paths from getUnpublishTargets, confirmed by the user
+	 * @returns Error messages for files that could not be removed
+	 */
+	async unpublishNote(file: TFile, targetPaths: string[]): Promise<string[]> {
+		return this.exclusive(async () => {
+			const errors = await this.deletePublishedFiles(targetPaths);
+			this.manifest.removeRoot(file.path);
+			await this.manifest.save();
+			errors.push(...await this.output.flush('Unpublish', file.path));
+			return errors;
+		});
+	}
+
+	/**
+	 * Check whether a vault path is one of the published copies rather than a source file
+	 */
+	isPublishedCopy(path: string): boolean {
+		return this.settings.outputMode === 'vault' && path.startsWith(`${this.settings.targetFolderPath}/`);
+	}
+
+	/**
+	 * Bring the published files up to date after files in the vault changed, for auto-publishing.
+	 * Published copies of renamed and deleted files are removed, renamed publish roots are kept under
+	 * their new path, and every root whose publish set includes a changed file is published again.
+	 * Unchanged files are skipped as in any publish. Waits for a publish that is already running.
+	 * @param modifiedPaths Paths of modified files
+	 * @param renamedPaths New path of each renamed file or folder, keyed by its old path
+	 * @param deletedPaths Paths of deleted files and folders
+	 * @returns The combined result, or null when nothing published was affected
+	 */
+	async republishChanges(modifiedPaths: string[], renamedPaths: Map<string, string>, deletedPaths: string[]): Promise<PublishResult | null> {
+		return this.exclusive(() => this.publishChanges(modifiedPaths, renamedPaths, deletedPaths));
+	}
+
+	private async publishChanges(modifiedPaths: string[], renamedPaths: Map<string, string>, deletedPaths: string[]): Promise<PublishResult | null> {
+		await this.manifest.load();
+		const removedPaths = [...deletedPaths, ...Array.from(renamedPaths.keys())];
+		const isRemoved = (path: string) => removedPaths.some(removedPath => this.isSameOrInside(path, removedPath));
+
+		// Targets published from removed files, of which those no remaining file publishes to are stale
+		const removedTargets = new Set<string>();
+		const entries = this.manifest.getEntries();
+		for (const sourcePath of Object.keys(entries)) {
+			if (isRemoved(sourcePath)) {
+				removedTargets.add(entries[sourcePath].targetPath);
+				entries[sourcePath].images.forEach(image => removedTargets.add(image));
+			}
+		}
+
+		const drawings = this.manifest.getDrawings();
+		for (const exportKey of Object.keys(drawings)) {
+			if (isRemoved(drawings[exportKey].drawingPath)) {
+				removedTargets.add(drawings[exportKey].imagePath);
+			}
+		}
+
+		const staleTargets = this.manifest.findOrphans().filter(path => removedTargets.has(path));
+
+		// Renamed roots keep publishing from their new path, deleted roots stop
+		const roots = this.manifest.getRoots();
+		let rootsChanged = false;
+		for (const rootPath of Object.keys(roots)) {
+			if (!isRemoved(rootPath)) {
+				continue;
+			}
+
+			this.manifest.removeRoot(rootPath);
+			const newPath = this.getRenamedPath(rootPath, renamedPaths);
+			if (newPath) {
+				this.manifest.addRoot(newPath, roots[rootPath]);
+			}
+			rootsChanged = true;
+		}
+
+		const result = this.createResult();
+		if (staleTargets.length > 0) {
+			result.errors.push(...await this.deletePublishedFiles(staleTargets));
+		} else if (rootsChanged) {
+			await this.manifest.save();
+		}
+
+		// Any published note may link to a removed one, so then every root is published again.
+		// Otherwise only changes to published files, or files they link to, need the publish sets traversed.
+		const changedPaths = [...modifiedPaths, ...Array.from(renamedPaths.values())]
+			.filter(path => this.isLinkedFromPublish(path));
+		const affectedRoots = removedTargets.size > 0 || changedPaths.length > 0
+			? await this.getAffectedRoots(removedTargets.size > 0 ? null : changedPaths)
+			: new Map<TFile, PublishRoot>();
+
+		if (affectedRoots.size === 0) {
+			if (staleTargets.length === 0 && !rootsChanged) {
+				return null;
+			}
+
+			result.errors.push(...await this.output.flush('Remove renamed and deleted files'));
+			return result;
+		}
+
+		// Roots are published together when they were published with the same options
+		const groups = new Map<string, TFile[]>();
+		affectedRoots.forEach((root, file) => {
+			const key = JSON.stringify({ includeLinked: root.includeLinked, maxDepth: root.maxDepth });
+			groups.set(key, [...(groups.get(key) || []), file]);
+		});
+
+		for (const [key, files] of Array.from(groups.entries())) {
+			const rootOptions: PublishRoot = JSON.parse(key);
+			const groupResult = await this.publishRoots(files, {
+				...rootOptions,
+				excludePatterns: this.settings.excludePatterns,
+				quiet: true
+			});
+			this.mergeResult(result, groupResult);
+		}
+
+		return result;
+	}
+
+	/**
+	 * Run a task once every earlier publish, preview or removal of this copier has finished
+	 */
+	private exclusive<T>(task: () => Promise<T>): Promise<T> {
+		const run = this.queue.then(task);
+		this.queue = run.catch(() => undefined);
+		return run;
+	}
+
+	/**
+	 * Find the publish roots to publish again after files changed
+	 * @param changedPaths Changed files and folders, or null for every root
+	 * @returns Each affected root with the options it was published with
+	 */
+	private async getAffectedRoots(changedPaths: string[] | null): Promise<Map<TFile, PublishRoot>> {
+		const roots = this.manifest.getRoots();
+		const entries = this.manifest.getEntries();
+		const drawings = this.manifest.getDrawings();
+		const isChanged = (path: string) => !changedPaths || changedPaths.some(changedPath => this.isSameOrInside(path, changedPath));
+
+		// Drawings and canvases aren't part of a publish set; the notes that embed their images are
+		const changedImages = Object.keys(drawings)
+			.filter(exportKey => isChanged(drawings[exportKey].drawingPath))
+			.map(exportKey => drawings[exportKey].imagePath);
+
+		const affectedRoots = new Map<TFile, PublishRoot>();
+		for (const rootPath of Object.keys(roots)) {
+			const rootFile = this.app.vault.getAbstractFileByPath(rootPath);
+			if (!(rootFile instanceof TFile)) {
+				continue;
+			}
+
+			if (changedPaths) {
+				const setPaths = Array.from(await this.collectPublishSetPaths(rootFile, roots[rootPath]));
+				const affected = setPaths.some(path => isChanged(path)
+					|| (entries[path]?.images || []).some(image => changedImages.includes(image)));
+				if (!affected) {
+					continue;
+				}
+			}
+
+			affectedRoots.set(rootFile, roots[rootPath]);
+		}
+
+		return affectedRoots;
+	}
+
+	/**
+	 * Add the outcome of another publish run to a result
+	 */
+	private mergeResult(result: PublishResult, other: PublishResult): void {
+		other.publishedFiles.forEach(path => result.publishedFiles.add(path));
+		other.publishedAttachments.forEach(path => result.publishedAttachments.add(path));
+		other.unchangedFiles.forEach(path => result.unchangedFiles.add(path));
+		other.skippedFiles.forEach((reason, path) => result.skippedFiles.set(path, reason));
+		result.rewrittenLinks.push(...other.rewrittenLinks);
+		result.redactions.push(...other.redactions);
+		result.linkFindings.push(...other.linkFindings);
+		result.errors.push(...other.errors);
+		// The latest run saw the manifest after every earlier run
+		result.orphanedFiles = other.orphanedFiles;
+		result.blockedByValidation = result.blockedByValidation || other.blockedByValidation;
+	}
+
+	/**
+	 * Check in the manifest whether a changed file or folder can affect a publish: it was published or
+	 * exported as an image, or a published file or drawing links to it, such as a linked note that was
+	 * marked publish: false until now
+	 */
+	private isLinkedFromPublish(changedPath: string): boolean {
+		const entries = this.manifest.getEntries();
+		const drawings = this.manifest.getDrawings();
+		const publishedSources = [
+			...Object.keys(this.manifest.getRoots()),
+			...Object.keys(entries),
+			...Object.keys(drawings).map(exportKey => drawings[exportKey].drawingPath)
+		];
+
+		return publishedSources.some(sourcePath => this.isSameOrInside(sourcePath, changedPath)
+			|| Object.keys(this.app.metadataCache.resolvedLinks[sourcePath] || {})
+				.some(linkedPath => this.isSameOrInside(linkedPath, changedPath)));
+	}
+
+	/**
+	 * Check whether a path is a file or folder path, or inside that folder
+	 */
+	private isSameOrInside(path: string, folderPath: string): boolean {
+		return path === folderPath || path.startsWith(`${folderPath}/`);
+	}
+
+	/**
+	 * Get a path's new location after its file or one of its folders was renamed
+	 * @returns The new path, or null when the path wasn't renamed
+	 */
+	private getRenamedPath(path: string, renamedPaths: Map<string, string>): string | null {
+		for (const [oldPath, newPath] of Array.from(renamedPaths.entries())) {
+			if (this.isSameOrInside(path, oldPath)) {
+				return newPath + path.substring(oldPath.length);
+			}
+		}
+		return null;
+	}
+
+	/**
+	 * Get the target path for a file
+	 */
+	private getTargetPath(file: TFile): string {
+		return `${this.settings.targetFolderPath}/${this.slugger.getPublishedPath(file)}`;
+	}
+
+	/**
+	 * Get the target path for an attachment: next to the notes, or in the attachments folder if configured.
+	 * Inside the attachments folder it keeps its vault path, so attachments with the same name don't overwrite each other.
+	 */
+	private getAttachmentTargetPath(file: TFile): string {
+		if (!this.settings.attachmentFolderPath) {
+			return this.getTargetPath(file);
+		}
+
+		return `${this.settings.targetFolderPath}/${this.settings.attachmentFolderPath}/${file.path}`;
+	}
+
+	/**
+	 * Send published files, generated images and the manifest to an output
+	 */
+	private setOutput(output: PublishOutput): void {
+		this.output = output;
+		this.manifest.setOutput(output);
+		this.excalidrawUtil.setOutput(output);
+		this.canvasUtil.setOutput(output);
 	}
 
 	/**
@@ -250,6 +972,27 @@ export class NoteCopier {
 			return { isValid: false, error: 'Please configure target folder path in settings' };
 		}
 
+		if (writesToFileSystem(this.settings.outputMode) && !Platform.isDesktopApp) {
+			return { isValid: false, error: 'Publishing to a folder outside the vault is only available on desktop' };
+		}
+
+		if (!this.isValidTargetPath(this.settings.targetFolderPath)) {
+			return {
+				isValid: false,
+				error: writesToFileSystem(this.settings.outputMode)
+					? `Target folder "${this.settings.targetFolderPath}" must be an absolute path`
+					: `Target folder "${this.settings.targetFolderPath}" must be a relative folder path`
+			};
+		}
+
+		if (this.settings.outputMode === 'http' && !this.settings.httpEndpoint) {
+			return { isValid: false, error: 'Please configure the upload endpoint in settings' };
+		}
+
+		if (!this.directiveReader.read(file).publish) {
+			return { isValid: false, error: `${file.name} is marked publish: false in its frontmatter` };
+		}
+
 		return { isValid: true };
 	}
 
@@ -259,64 +1002,42 @@ export class NoteCopier {
 	updateSettings(newSettings: NSPublishSettings): void {
 		this.settings = newSettings;
 		this.wikilinkParser.updateSettings(newSettings);
+		this.linkRewriter.updateSettings(newSettings);
+		this.redactor.updateSettings(newSettings);
+		this.transcluder.updateSettings(newSettings);
+		this.dialectConverter.updateSettings(newSettings);
+		this.manifest.updateSettings(newSettings);
+		this.slugger.updateSettings(newSettings);
+		this.linkValidator.updateSettings(newSettings);
+		this.setOutput(createPublishOutput(this.app, newSettings));
 	}
 
 	/**
-	 * Get publishing statistics for a file (dry run)
+	 * Replace Excalidraw embeds in note content with exported images
 	 */
-	async getPublishingStats(file: TFile, includeLinked = true): Promise<{
-		totalFiles: number;
-		linkedFiles: TFile[];
-		estimatedSize: number;
-	}> {
-		const stats = {
-			totalFiles: 1,
-			linkedFiles: [] as TFile[],
-			estimatedSize: 0
-		};
-
+	private async processExcalidrawContent(content: string, file: TFile): Promise<string> {
 		try {
-			// Calculate size of main file
-			const mainContent = await this.app.vault.read(file);
-			stats.estimatedSize += mainContent.length;
-
-			if (includeLinked) {
-				const allLinkedFiles = await this.wikilinkParser.getAllLinkedFilesRecursively(file);
-				stats.linkedFiles = Array.from(allLinkedFiles);
-				stats.totalFiles += stats.linkedFiles.length;
-
-				// Calculate size of linked files
-				for (const linkedFile of stats.linkedFiles) {
-					try {
-						const content = await this.app.vault.read(linkedFile);
-						stats.estimatedSize += content.length;
-					} catch (error) {
-						console.warn(`Could not read ${linkedFile.path} for size calculation:`, error);
-					}
-				}
-			}
-
+			this.excalidrawUtil.setTargetFolderPath(this.settings.targetFolderPath);
+			this.excalidrawUtil.setExportOptions(this.settings.excalidrawExport);
+			this.excalidrawUtil.setAppendLinkList(this.settings.excalidrawLinkList);
+			return await this.excalidrawUtil.processNoteContent(content, file);
 		} catch (error) {
-			console.error('Error calculating publishing stats:', error);
+			console.error(`Error processing Excalidraw content in ${file.path}:`, error);
+			return content;
 		}
-
-		return stats;
 	}
 
 	/**
-	 * Process Excalidraw content in the copied file
+	 * Replace canvas links and embeds in note content with exported images
 	 */
-	private async processExcalidrawContent(targetFile: TFile): Promise<void> {
+	private async processCanvasContent(content: string, file: TFile): Promise<string> {
 		try {
-			this.excalidrawUtil.setTargetFolderPath(this.settings.targetFolderPath);
-			const content = await this.app.vault.read(targetFile);
-			const processedContent = await this.excalidrawUtil.processNoteContent(content, targetFile);
-			
-			if (processedContent !== content) {
-				await this.app.vault.modify(targetFile, processedContent);
-			}
+			this.canvasUtil.setTargetFolderPath(this.settings.targetFolderPath);
+			this.canvasUtil.setExportOptions(this.settings.excalidrawExport);
+			return await this.canvasUtil.processNoteContent(content, file);
 		} catch (error) {
-			console.error(`Error processing Excalidraw content in ${targetFile.path}:`, error);
+			console.error(`Error processing canvas content in ${file.path}:`, error);
+			return content;
 		}
 	}
 
@@ -329,29 +1050,17 @@ export class NoteCopier {
 			return false;
 		}
 
-		// Must be a relative path within the vault
+		// Outside the vault it must be an absolute directory
+		if (writesToFileSystem(this.settings.outputMode)) {
+			return isAbsoluteDirectory(folderPath);
+		}
+
+		// Must be a relative path within the vault or on the server
 		return !folderPath.startsWith('/') && !folderPath.includes(':');
 	}
 
 	private generatePublishedUrl(file: TFile): string | null {
-		if (!this.settings.baseUrl) {
-			return null;
-		}
-
-		// Generate the URL based on original file path, not target path
-		const originalPath = file.path;
-		const pathWithoutExtension = originalPath.replace(/\.md$/, '');
-		
-		// Convert path to URL-friendly format
-		const urlFriendlyPath = pathWithoutExtension.split('/').map(segment => {
-			return segment
-				.replace(/\s*&\s*/g, '--and--')  // Replace ' & ' with '--and--'
-				.replace(/\s+/g, '-')            // Replace remaining spaces with hyphens
-		}).join('/');
-		
-		const encodedPath = urlFriendlyPath.split('/').map(segment => encodeURIComponent(segment)).join('/');
-		
-		return `${this.settings.baseUrl}/${encodedPath}`;
+		return this.slugger.getPublishedUrl(file);
 	}
 }
 
@@ -0,0 +1,149 @@
+import { App, TAbstractFile, TFile, TFolder, getAllTags } from 'obsidian';
+import { NSPublishSettings } from './types';
+
+/**
+ * Finds the notes a batch publish starts from: the notes in folders, with a tag or with a property.
+ * Published copies in the target folder and Excalidraw drawings are never picked.
+ */
+export class NoteSelector {
+	private app: App;
+	private settings: NSPublishSettings;
+
+	constructor(app: App, settings: NSPublishSettings) {
+		this.app = app;
+		this.settings = settings;
+	}
+
+	/**
+	 * Get the notes among selected files and inside selected folders, including subfolders
+	 * @param files Files and folders selected in the file explorer
+	 */
+	getNotes(files: TAbstractFile[]): TFile[] {
+		const notes: TFile[] = [];
+
+		const add = (file: TAbstractFile) => {
+			if (file instanceof TFolder) {
+				file.children.forEach(add);
+			} else if (file instanceof TFile && this.isSelectable(file) && !notes.includes(file)) {
+				notes.push(file);
+			}
+		};
+		files.forEach(add);
+
+		return notes.sort((a, b) => a.path.localeCompare(b.path));
+	}
+
+	/**
+	 * Get the notes tagged with a tag or one of its nested tags, in the body or frontmatter
+	 * @param tag Tag with or without the leading #
+	 */
+	getTaggedNotes(tag: string): TFile[] {
+		const wanted = this.normalizeTag(tag);
+
+		return this.getSelectableNotes().filter(file => {
+			const cache = this.app.metadataCache.getFileCache(file);
+			const tags = cache ? getAllTags(cache) || [] : [];
+			return tags.some(noteTag => {
+				const normalized = this.normalizeTag(noteTag);
+				return normalized === wanted || normalized.startsWith(`${wanted}/`);
+			});
+		});
+	}
+
+	/**
+	 * Get the notes with a frontmatter property
+	 * @param key Property name
+	 * @param value Value to match, compared case-insensitively and against each item of list properties.
+	 * Without a value, any value other than false or empty matches.
+	 */
+	getNotesWithProperty(key: string, value?: string): TFile[] {
+		return this.getSelectableNotes().filter(file => {
+			const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+			if (!frontmatter || !(key in frontmatter)) {
+				return false;
+			}
+
+			const values = this.getPropertyValues(frontmatter[key]);
+			if (value === undefined) {
+				return values.some(item => item !== '' && item !== 'false');
+			}
+
+			return values.includes(value.trim().toLowerCase());
+		});
+	}
+
+	/**
+	 * Get every tag used in selectable notes, for picking one
+	 */
+	getAllTags(): string[] {
+		const tags = new Set<string>();
+
+		for (const file of this.getSelectableNotes()) {
+			const cache = this.app.metadataCache.getFileCache(file);
+			(cache ? getAllTags(cache) || [] : []).forEach(tag => tags.add(tag));
+		}
+
+		return Array.from(tags).sort();
+	}
+
+	/**
+	 * Get every property, and every property value, used in selectable notes as `key` and `key: value`
+	 */
+	getAllProperties(): string[] {
+		const properties = new Set<string>();
+
+		for (const file of this.getSelectableNotes()) {
+			const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+			if (!frontmatter) {
+				continue;
+			}
+
+			for (const key of Object.keys(frontmatter)) {
+				if (key === 'position') {
+					continue;
+				}
+
+				properties.add(key);
+				this.getPropertyValues(frontmatter[key])
+					.filter(item => item && item.length <= 100)
+					.forEach(item => properties.add(`${key}: ${item}`));
+			}
+		}
+
+		return Array.from(properties).sort();
+	}
+
+	private getSelectableNotes(): TFile[] {
+		return this.app.vault.getMarkdownFiles().filter(file => this.isSelectable(file));
+	}
+
+	/**
+	 * Check whether a file can start a publish: a note that isn't a published copy or a drawing
+	 */
+	private isSelectable(file: TFile): boolean {
+		if (file.extension !== 'md') {
+			return false;
+		}
+
+		if (this.settings.outputMode === 'vault' && file.path.startsWith(`${this.settings.targetFolderPath}/`)) {
+			return false;
+		}
+
+		const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+		return !frontmatter || frontmatter['excalidraw-plugin'] === undefined;
+	}
+
+	/**
+	 * Flatten a property value into lowercase strings
+	 */
+	private getPropertyValues(value: unknown): string[] {
+		const items = Array.isArray(value) ? value : [value];
+		return items
+			.filter(item => item !== null && item !== undefined && typeof item !== 'object')
+			.map(item => String(item).trim().toLowerCase());
+	}
+
+	private normalizeTag(tag: string): string {
+		return tag.trim().replace(/^#/, '').toLowerCase();
+	}
+}
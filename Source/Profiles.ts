@@ -0,0 +1,88 @@
+import { NSPublishSettings, NSPublishPluginSettings, PublishProfile, ProfileSettingKey, DEFAULT_SETTINGS } from './types';
+
+const DEFAULT_PROFILE_ID = 'default';
+
+const PROFILE_SETTING_KEYS: ProfileSettingKey[] = [
+	'targetFolderPath', 'outputMode', 'gitCommitTemplate', 'gitPush', 'gitRemote',
+	'httpEndpoint', 'httpApi', 'httpAuth', 'httpUsername', 'httpPassword', 'httpToken', 'httpRetries',
+	'autoPublish', 'includeLinkedNotes', 'maxDepth', 'excludePatterns', 'preserveFolderStructure',
+	'addPublishPrefix', 'publishPrefix', 'baseUrl', 'slugPreset', 'slugTemplate', 'slugFileNames'
+];
+
+/**
+ * Create a profile, copying its settings from another profile or the defaults
+ * @param name Display name of the profile
+ * @param source Profile or legacy settings to copy from; missing settings use the defaults
+ */
+export function createProfile(name: string, source: Partial<Pick<NSPublishSettings, ProfileSettingKey>> = {}): PublishProfile {
+	return {
+		id: `${Date.now().toString(36)}${Math.random().toString(36).substring(2, 6)}`,
+		name,
+		...pickProfileSettings(source)
+	};
+}
+
+/**
+ * Turn saved data into plugin settings. Data from before profiles existed becomes a single "Default" profile.
+ * @param data Whatever loadData returned
+ */
+export function migrateSettings(data: Partial<NSPublishSettings & NSPublishPluginSettings> | null): NSPublishPluginSettings {
+	const saved = data || {};
+	const settings = { ...DEFAULT_SETTINGS, ...saved } as NSPublishSettings & NSPublishPluginSettings;
+	settings.excalidrawExport = { ...DEFAULT_SETTINGS.excalidrawExport, ...saved.excalidrawExport };
+
+	if (Array.isArray(saved.profiles) && saved.profiles.length > 0) {
+		// Fill in settings added to profiles since they were saved
+		settings.profiles = saved.profiles.map(profile => ({ ...profile, ...pickProfileSettings(profile) }));
+	} else {
+		settings.profiles = [{ ...createProfile('Default', saved), id: DEFAULT_PROFILE_ID }];
+	}
+
+	if (!settings.profiles.some(profile => profile.id === settings.activeProfileId)) {
+		settings.activeProfileId = settings.profiles[0].id;
+	}
+
+	// Profile settings only live in profiles now
+	for (const key of PROFILE_SETTING_KEYS) {
+		delete settings[key];
+	}
+	return settings;
+}
+
+/**
+ * Merge the shared settings with one profile into the settings a publish runs with
+ */
+export function getProfileSettings(settings: NSPublishPluginSettings, profile: PublishProfile): NSPublishSettings {
+	const profileSettings = { ...settings, ...pickProfileSettings(profile) } as NSPublishSettings & Partial<NSPublishPluginSettings>;
+	delete profileSettings.profiles;
+	delete profileSettings.activeProfileId;
+	return profileSettings;
+}
+
+function pickProfileSettings(source: Partial<Pick<NSPublishSettings, ProfileSettingKey>>): Pick<NSPublishSettings, ProfileSettingKey> {
+	return {
+		targetFolderPath: source.targetFolderPath ?? DEFAULT_SETTINGS.targetFolderPath,
+		outputMode: source.outputMode ?? DEFAULT_SETTINGS.outputMode,
+		gitCommitTemplate: source.gitCommitTemplate ?? DEFAULT_SETTINGS.gitCommitTemplate,
+		gitPush: source.gitPush ?? DEFAULT_SETTINGS.gitPush,
+		gitRemote: source.gitRemote ?? DEFAULT_SETTINGS.gitRemote,
+		httpEndpoint: source.httpEndpoint ?? DEFAULT_SETTINGS.httpEndpoint,
+		httpApi: source.httpApi ?? DEFAULT_SETTINGS.httpApi,
+		httpAuth: source.httpAuth ?? DEFAULT_SETTINGS.httpAuth,
+		httpUsername: source.httpUsername ?? DEFAULT_SETTINGS.httpUsername,
+		httpPassword: source.httpPassword ?? DEFAULT_SETTINGS.httpPassword,
+		httpToken: source.httpToken ?? DEFAULT_SETTINGS.httpToken,
+		httpRetries: source.httpRetries ?? DEFAULT_SETTINGS.httpRetries,
+		autoPublish: source.autoPublish ?? DEFAULT_SETTINGS.autoPublish,
+		includeLinkedNotes: source.includeLinkedNotes ?? DEFAULT_SETTINGS.includeLinkedNotes,
+		maxDepth: source.maxDepth ?? DEFAULT_SETTINGS.maxDepth,
+		excludePatterns: [...(source.excludePatterns ?? DEFAULT_SETTINGS.excludePatterns)],
+		preserveFolderStructure: source.preserveFolderStructure ?? DEFAULT_SETTINGS.preserveFolderStructure,
+		addPublishPrefix: source.addPublishPrefix ?? DEFAULT_SETTINGS.addPublishPrefix,
+		publishPrefix: source.publishPrefix ?? DEFAULT_SETTINGS.publishPrefix,
+		baseUrl: source.baseUrl ?? DEFAULT_SETTINGS.baseUrl,
+		slugPreset: source.slugPreset ?? DEFAULT_SETTINGS.slugPreset,
+		slugTemplate: source.slugTemplate ?? DEFAULT_SETTINGS.slugTemplate,
+		slugFileNames: source.slugFileNames ?? DEFAULT_SETTINGS.slugFileNames
+	};
+}
@@ -0,0 +1,281 @@
+import { App } from 'obsidian';
+import { NSPublishSettings, ManifestEntry, PublishRoot, DrawingExportEntry } from './types';
+import { PublishOutput, VaultOutput } from './PublishOutput';
+
+// Manifests live in the plugin folder so source paths never end up with the published files
+const MANIFEST_FOLDER = 'plugins/obsidian-ns-publish/manifests';
+// Earlier versions stored the manifest in the target folder
+const LEGACY_MANIFEST_FILE_NAME = '.ns-publish-manifest.json';
+const MANIFEST_VERSION = 1;
+
+interface ManifestData {
+	version: number;
+	entries: Record<string, ManifestEntry>;
+	roots: Record<string, PublishRoot>;
+	drawings: Record<string, DrawingExportEntry>;
+	orphans: string[];
+}
+
+/**
+ * Tracks what was published where, so unchanged files can be skipped
+ * and targets of renamed or deleted notes can be cleaned up
+ */
+export class PublishManifest {
+	private app: App;
+	private settings: NSPublishSettings;
+	private output: PublishOutput;
+	private data: ManifestData = { version: MANIFEST_VERSION, entries: {}, roots: {}, drawings: {}, orphans: [] };
+	// Whether the loaded manifest came from the target folder and should be removed from there on save
+	private loadedLegacyManifest = false;
+
+	constructor(app: App, settings: NSPublishSettings) {
+		this.app = app;
+		this.settings = settings;
+		this.output = new VaultOutput(app);
+	}
+
+	/**
+	 * Set the output of the current output mode, where manifests of earlier versions are found
+	 */
+	setOutput(output: PublishOutput): void {
+		this.output = output;
+	}
+
+	/**
+	 * Load the manifest of the current destination, starting empty if there is none.
+	 * A manifest that exists but can't be read throws, since saving over it would lose track of every published file.
+	 */
+	async load(): Promise<void> {
+		this.data = { version: MANIFEST_VERSION, entries: {}, roots: {}, drawings: {}, orphans: [] };
+		this.loadedLegacyManifest = false;
+
+		const manifestPath = await this.getManifestPath();
+		const legacyPath = this.getLegacyManifestPath();
+		let json: string | null = null;
+		let legacy = false;
+
+		try {
+			if (await this.app.vault.adapter.exists(manifestPath)) {
+				json = await this.app.vault.adapter.read(manifestPath);
+			} else if (await this.output.exists(legacyPath)) {
+				json = await this.output.read(legacyPath);
+				legacy = true;
+			}
+		} catch (error) {
+			throw new Error(`Could not read the publish manifest: ${error.message}`);
+		}
+
+		if (json === null) {
+			return;
+		}
+
+		let parsed;
+		try {
+			parsed = JSON.parse(json);
+		} catch (error) {
+			throw new Error(`The publish manifest ${legacy ? legacyPath : manifestPath} is not valid JSON: ${error.message}`);
+		}
+
+		if (!parsed || parsed.version !== MANIFEST_VERSION) {
+			throw new Error(`The publish manifest ${legacy ? legacyPath : manifestPath} has an unsupported version`);
+		}
+
+		this.data = {
+			version: MANIFEST_VERSION,
+			entries: parsed.entries || {},
+			roots: parsed.roots || {},
+			drawings: parsed.drawings || {},
+			orphans: parsed.orphans || []
+		};
+		this.loadedLegacyManifest = legacy;
+	}
+
+	/**
+	 * Write the manifest to the plugin folder, removing a manifest of an earlier version from the target folder
+	 */
+	async save(): Promise<void> {
+		const manifestPath = await this.getManifestPath();
+		const folderPath = manifestPath.substring(0, manifestPath.lastIndexOf('/'));
+		if (!(await this.app.vault.adapter.exists(folderPath))) {
+			await this.app.vault.adapter.mkdir(folderPath);
+		}
+		await this.app.vault.adapter.write(manifestPath, JSON.stringify(this.data, null, '\t'));
+
+		if (this.loadedLegacyManifest) {
+			await this.output.remove(this.getLegacyManifestPath());
+			this.loadedLegacyManifest = false;
+		}
+	}
+
+	get(sourcePath: string): ManifestEntry | undefined {
+		return this.data.entries[sourcePath];
+	}
+
+	/**
+	 * Record a published file. Targets and images it no longer uses become orphans.
+	 */
+	set(sourcePath: string, entry: ManifestEntry): void {
+		const previous = this.data.entries[sourcePath];
+		this.data.entries[sourcePath] = entry;
+
+		if (previous) {
+			const stalePaths = [previous.targetPath, ...previous.images]
+				.filter(path => path !== entry.targetPath && !entry.images.includes(path));
+			this.addOrphans(stalePaths);
+		}
+
+		// A path that is published again is no longer an orphan
+		const currentPaths = [entry.targetPath, ...entry.images];
+		this.data.orphans = this.data.orphans.filter(path => !currentPaths.includes(path));
+	}
+
+	/**
+	 * Get every entry, keyed by source path
+	 */
+	getEntries(): Record<string, ManifestEntry> {
+		return { ...this.data.entries };
+	}
+
+	/**
+	 * Remember a note that was published directly, so its dependencies can be worked out when unpublishing
+	 */
+	addRoot(sourcePath: string, root: PublishRoot): void {
+		this.data.roots[sourcePath] = root;
+	}
+
+	removeRoot(sourcePath: string): void {
+		delete this.data.roots[sourcePath];
+	}
+
+	/**
+	 * Get every publish root, keyed by source path
+	 */
+	getRoots(): Record<string, PublishRoot> {
+		return { ...this.data.roots };
+	}
+
+	/**
+	 * Get every exported drawing, keyed by export key
+	 */
+	getDrawings(): Record<string, DrawingExportEntry> {
+		return { ...this.data.drawings };
+	}
+
+	getDrawing(exportKey: string): DrawingExportEntry | undefined {
+		return this.data.drawings[exportKey];
+	}
+
+	/**
+	 * Record an exported drawing, keyed by its path plus any frame, group or area reference.
+	 * An image it no longer exports to becomes an orphan.
+	 */
+	setDrawing(exportKey: string, entry: DrawingExportEntry): void {
+		const previous = this.data.drawings[exportKey];
+		this.data.drawings[exportKey] = entry;
+
+		if (previous && previous.imagePath !== entry.imagePath) {
+			this.addOrphans([previous.imagePath]);
+		}
+
+		this.data.orphans = this.data.orphans.filter(path => path !== entry.imagePath);
+	}
+
+	/**
+	 * Find published files whose source note was renamed or deleted, or which a newer publish replaced
+	 * @returns Target paths that can be removed
+	 */
+	findOrphans(): string[] {
+		const orphans = new Set(this.data.orphans);
+
+		for (const sourcePath of Object.keys(this.data.entries)) {
+			const entry = this.data.entries[sourcePath];
+			if (!this.app.vault.getAbstractFileByPath(sourcePath)) {
+				orphans.add(entry.targetPath);
+				entry.images.forEach(image => orphans.add(image));
+			}
+		}
+
+		for (const exportKey of Object.keys(this.data.drawings)) {
+			const drawing = this.data.drawings[exportKey];
+			if (!this.app.vault.getAbstractFileByPath(drawing.drawingPath)) {
+				orphans.add(drawing.imagePath);
+			}
+		}
+
+		// Never report a path that a live entry still publishes to
+		for (const sourcePath of Object.keys(this.data.entries)) {
+			const entry = this.data.entries[sourcePath];
+			if (this.app.vault.getAbstractFileByPath(sourcePath)) {
+				orphans.delete(entry.targetPath);
+				entry.images.forEach(image => orphans.delete(image));
+			}
+		}
+
+		for (const exportKey of Object.keys(this.data.drawings)) {
+			const drawing = this.data.drawings[exportKey];
+			if (this.app.vault.getAbstractFileByPath(drawing.drawingPath)) {
+				orphans.delete(drawing.imagePath);
+			}
+		}
+
+		return Array.from(orphans);
+	}
+
+	/**
+	 * Forget removed target paths and the entries and drawings that published to them
+	 */
+	forgetTargets(targetPaths: string[]): void {
+		this.data.orphans = this.data.orphans.filter(path => !targetPaths.includes(path));
+
+		for (const sourcePath of Object.keys(this.data.entries)) {
+			if (targetPaths.includes(this.data.entries[sourcePath].targetPath)) {
+				delete this.data.entries[sourcePath];
+			}
+		}
+
+		for (const exportKey of Object.keys(this.data.drawings)) {
+			if (targetPaths.includes(this.data.drawings[exportKey].imagePath)) {
+				delete this.data.drawings[exportKey];
+			}
+		}
+	}
+
+	/**
+	 * Hash file content so unchanged files can be detected
+	 * @param content Text or binary content
+	 * @returns Hex encoded SHA-256 digest
+	 */
+	static async hash(content: string | ArrayBuffer): Promise<string> {
+		const data = typeof content === 'string' ? new TextEncoder().encode(content) : content;
+		const digest = await crypto.subtle.digest('SHA-256', data);
+
+		return Array.from(new Uint8Array(digest))
+			.map(byte => `0${byte.toString(16)}`.slice(-2))
+			.join('');
+	}
+
+	private addOrphans(paths: string[]): void {
+		for (const path of paths) {
+			if (!this.data.orphans.includes(path)) {
+				this.data.orphans.push(path);
+			}
+		}
+	}
+
+	/**
+	 * Get the manifest path of the current destination: one manifest per output mode, endpoint and target folder
+	 */
+	private async getManifestPath(): Promise<string> {
+		const endpoint = this.settings.outputMode === 'http' ? this.settings.httpEndpoint : '';
+		const key = await PublishManifest.hash(`${this.settings.outputMode}\n${endpoint}\n${this.settings.targetFolderPath}`);
+		return `${this.app.vault.configDir}/${MANIFEST_FOLDER}/${key.substring(0, 16)}.json`;
+	}
+
+	private getLegacyManifestPath(): string {
+		return `${this.settings.targetFolderPath}/${LEGACY_MANIFEST_FILE_NAME}`;
+	}
+
+	updateSettings(newSettings: NSPublishSettings): void {
+		this.settings = newSettings;
+	}
+}
@@ -0,0 +1,482 @@
+import { App, Platform, TFile, RequestUrlResponse, requestUrl, arrayBufferToBase64, base64ToArrayBuffer } from 'obsidian';
+import { NSPublishSettings, OutputMode, DEFAULT_GIT_COMMIT_TEMPLATE } from './types';
+
+/**
+ * Where published files are written. Paths are target paths as built from the target folder path.
+ */
+export interface PublishOutput {
+	exists(path: string): Promise<boolean>;
+	read(path: string): Promise<string>;
+	readBinary(path: string): Promise<ArrayBuffer>;
+	/** Write a file, creating missing folders and replacing an existing file */
+	write(path: string, data: string | ArrayBuffer): Promise<void>;
+	/** Remove a file; files that don't exist are ignored */
+	remove(path: string): Promise<void>;
+	/**
+	 * Deliver the files written and removed since the last flush, such as by committing them
+	 * @param action What the changes were, e.g. "Publish" or "Unpublish"
+	 * @param notePath The note they were made for, if any
+	 * @returns Error messages
+	 */
+	flush(action: string, notePath?: string): Promise<string[]>;
+}
+
+/**
+ * Create the output for the configured output mode
+ */
+export function createPublishOutput(app: App, settings: NSPublishSettings): PublishOutput {
+	switch (settings.outputMode) {
+		case 'filesystem':
+			return new FileSystemOutput();
+		case 'git':
+			return new GitOutput(settings);
+		case 'http':
+			return new HttpOutput(settings);
+		default:
+			return new VaultOutput(app);
+	}
+}
+
+/**
+ * Check whether an output mode writes to an absolute directory through Node, which only works on desktop
+ */
+export function writesToFileSystem(outputMode: OutputMode): boolean {
+	return outputMode === 'filesystem' || outputMode === 'git';
+}
+
+/**
+ * Check whether a directory is an absolute filesystem path, such as /srv/www or C:/Sites
+ */
+export function isAbsoluteDirectory(path: string): boolean {
+	return /^(?:\/|[A-Za-z]:\/|\/\/)/.test(path);
+}
+
+/**
+ * Writes into a folder of this vault through the vault API, so published copies are indexed right away
+ */
+export class VaultOutput implements PublishOutput {
+	private app: App;
+
+	constructor(app: App) {
+		this.app = app;
+	}
+
+	async exists(path: string): Promise<boolean> {
+		return this.app.vault.adapter.exists(path);
+	}
+
+	async read(path: string): Promise<string> {
+		return this.app.vault.adapter.read(path);
+	}
+
+	async readBinary(path: string): Promise<ArrayBuffer> {
+		return this.app.vault.adapter.readBinary(path);
+	}
+
+	async write(path: string, data: string | ArrayBuffer): Promise<void> {
+		await this.ensureFolderExists(path.substring(0, path.lastIndexOf('/')));
+
+		const existingFile = this.app.vault.getAbstractFileByPath(path);
+		const fileName = path.substring(path.lastIndexOf('/') + 1);
+
+		if (existingFile instanceof TFile) {
+			if (typeof data === 'string') {
+				await this.app.vault.modify(existingFile, data);
+			} else {
+				await this.app.vault.modifyBinary(existingFile, data);
+			}
+		} else if (fileName.startsWith('.')) {
+			// The vault doesn't index dot files such as the manifest, so write them directly
+			if (typeof data === 'string') {
+				await this.app.vault.adapter.write(path, data);
+			} else {
+				await this.app.vault.adapter.writeBinary(path, data);
+			}
+		} else if (typeof data === 'string') {
+			await this.app.vault.create(path, data);
+		} else {
+			await this.app.vault.createBinary(path, data);
+		}
+	}
+
+	async remove(path: string): Promise<void> {
+		const existingFile = this.app.vault.getAbstractFileByPath(path);
+		if (existingFile instanceof TFile) {
+			await this.app.vault.delete(existingFile);
+		} else if (await this.app.vault.adapter.exists(path)) {
+			await this.app.vault.adapter.remove(path);
+		}
+	}
+
+	async flush(): Promise<string[]> {
+		return [];
+	}
+
+	/**
+	 * Create a folder and its parents
+	 */
+	private async ensureFolderExists(folderPath: string): Promise<void> {
+		if (!folderPath || this.app.vault.getAbstractFileByPath(folderPath)) {
+			return;
+		}
+
+		let currentPath = '';
+		for (const part of folderPath.split('/')) {
+			currentPath = currentPath ? `${currentPath}/${part}` : part;
+			if (!this.app.vault.getAbstractFileByPath(currentPath)) {
+				await this.app.vault.createFolder(currentPath);
+			}
+		}
+	}
+}
+
+/**
+ * Writes to an absolute directory outside the vault, such as a web server's content root.
+ * Uses Node's fs, so it only works on desktop.
+ */
+export class FileSystemOutput implements PublishOutput {
+	async exists(path: string): Promise<boolean> {
+		const fs = await this.getFs();
+		try {
+			await fs.stat(path);
+			return true;
+		} catch (error) {
+			return false;
+		}
+	}
+
+	async read(path: string): Promise<string> {
+		const fs = await this.getFs();
+		return fs.readFile(path, 'utf8');
+	}
+
+	async readBinary(path: string): Promise<ArrayBuffer> {
+		const fs = await this.getFs();
+		const buffer = await fs.readFile(path);
+		return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength);
+	}
+
+	async write(path: string, data: string | ArrayBuffer): Promise<void> {
+		const fs = await this.getFs();
+		const folderPath = path.substring(0, path.lastIndexOf('/'));
+		if (folderPath) {
+			await fs.mkdir(folderPath, { recursive: true });
+		}
+
+		await fs.writeFile(path, typeof data === 'string' ? data : new Uint8Array(data));
+	}
+
+	async remove(path: string): Promise<void> {
+		const fs = await this.getFs();
+		try {
+			await fs.unlink(path);
+		} catch (error) {
+			if (error.code !== 'ENOENT') {
+				throw error;
+			}
+		}
+	}
+
+	async flush(action: string, notePath?: string): Promise<string[]> {
+		return [];
+	}
+
+	/**
+	 * Load fs only when it's used, since it doesn't exist on mobile
+	 */
+	protected async getFs(): Promise<typeof import('fs').promises> {
+		if (!Platform.isDesktopApp) {
+			throw new Error('Publishing to a folder outside the vault is only available on desktop');
+		}
+
+		return (await import('fs')).promises;
+	}
+}
+
+/**
+ * Writes into the working tree of a local Git repository, then stages and commits
+ * only the files a publish changed or removed, and optionally pushes
+ */
+export class GitOutput extends FileSystemOutput {
+	private settings: NSPublishSettings;
+	private writtenPaths: Set<string> = new Set();
+	private removedPaths: Set<string> = new Set();
+
+	constructor(settings: NSPublishSettings) {
+		super();
+		this.settings = settings;
+	}
+
+	async write(path: string, data: string | ArrayBuffer): Promise<void> {
+		await super.write(path, data);
+		this.removedPaths.delete(path);
+		this.writtenPaths.add(path);
+	}
+
+	async remove(path: string): Promise<void> {
+		await super.remove(path);
+		this.writtenPaths.delete(path);
+		this.removedPaths.add(path);
+	}
+
+	async flush(action: string, notePath?: string): Promise<string[]> {
+		const writtenPaths = Array.from(this.writtenPaths);
+		const removedPaths = Array.from(this.removedPaths);
+		this.writtenPaths.clear();
+		this.removedPaths.clear();
+
+		if (writtenPaths.length === 0 && removedPaths.length === 0) {
+			return [];
+		}
+
+		try {
+			if (writtenPaths.length > 0) {
+				await this.git(['add', '--', ...writtenPaths]);
+			}
+			if (removedPaths.length > 0) {
+				await this.git(['rm', '--cached', '--quiet', '--ignore-unmatch', '--', ...removedPaths]);
+			}
+
+			// Files rewritten with the same content leave nothing to commit
+			const stagedOutput = await this.git(['diff', '--cached', '--name-only', '--', ...writtenPaths, ...removedPaths]);
+			const stagedPaths = stagedOutput.split('\n').filter(path => path);
+			if (stagedPaths.length === 0) {
+				return [];
+			}
+
+			const message = this.buildCommitMessage(action, notePath, stagedPaths);
+			// Commit just these paths so changes staged by hand stay staged; git lists them from the repository root
+			await this.git(['commit', '--quiet', '-m', message, '--', ...stagedPaths.map(path => `:(top)${path}`)]);
+		} catch (error) {
+			return [`Failed to commit to ${this.settings.targetFolderPath}: ${error.message}`];
+		}
+
+		if (this.settings.gitPush) {
+			try {
+				await this.git(['push', '--quiet', this.settings.gitRemote || 'origin', 'HEAD']);
+			} catch (error) {
+				return [`Committed, but failed to push to ${this.settings.gitRemote || 'origin'}: ${error.message}`];
+			}
+		}
+
+		return [];
+	}
+
+	/**
+	 * Fill in the commit message template
+	 * @param stagedPaths Changed files, relative to the repository root
+	 */
+	private buildCommitMessage(action: string, notePath: string | undefined, stagedPaths: string[]): string {
+		const note = notePath ? notePath.replace(/\.md$/, '') : '';
+		const files = stagedPaths.map(path => `- ${path}`).join('\n');
+
+		return (this.settings.gitCommitTemplate || DEFAULT_GIT_COMMIT_TEMPLATE)
+			.replace(/\{action\}/g, () => action)
+			.replace(/\{note\}/g, () => note)
+			.replace(/\{count\}/g, () => String(stagedPaths.length))
+			.replace(/\{files\}/g, () => files)
+			.replace(/[ \t]+$/gm, '')
+			.trim();
+	}
+
+	/**
+	 * Run git in the target folder
+	 * @returns What git printed
+	 */
+	private async git(args: string[]): Promise<string> {
+		// Check the platform before loading child_process, like fs
+		await this.getFs();
+		const { execFile } = await import('child_process');
+
+		return new Promise((resolve, reject) => {
+			execFile('git', args, { cwd: this.settings.targetFolderPath, maxBuffer: 10 * 1024 * 1024 }, (error, stdout, stderr) => {
+				if (error) {
+					reject(new Error(stderr.trim() || error.message));
+				} else {
+					resolve(stdout);
+				}
+			});
+		});
+	}
+}
+
+/**
+ * Uploads to an HTTP endpoint, either as WebDAV (PUT, MKCOL, DELETE) or through a JSON POST API
+ * that takes `{ action, path }` requests with the actions exists, read, write and delete.
+ * Paths are target paths, appended to the endpoint URL for WebDAV.
+ */
+export class HttpOutput implements PublishOutput {
+	private settings: NSPublishSettings;
+	// WebDAV collections known to exist, so each is only created once per output
+	private createdFolders: Set<string> = new Set();
+	// Paths whose upload or deletion failed since the last flush
+	private failedPaths: string[] = [];
+
+	constructor(settings: NSPublishSettings) {
+		this.settings = settings;
+	}
+
+	async exists(path: string): Promise<boolean> {
+		if (this.settings.httpApi === 'json') {
+			return !!(await this.post({ action: 'exists', path })).json?.exists;
+		}
+
+		const response = await this.request('HEAD', path, undefined, [404]);
+		return response.status !== 404;
+	}
+
+	async read(path: string): Promise<string> {
+		if (this.settings.httpApi === 'json') {
+			const { json } = await this.post({ action: 'read', path });
+			return json.encoding === 'base64' ? new TextDecoder().decode(base64ToArrayBuffer(json.content)) : json.content;
+		}
+
+		return (await this.request('GET', path)).text;
+	}
+
+	async readBinary(path: string): Promise<ArrayBuffer> {
+		if (this.settings.httpApi === 'json') {
+			const { json } = await this.post({ action: 'read', path });
+			return json.encoding === 'base64' ? base64ToArrayBuffer(json.content) : new TextEncoder().encode(json.content).buffer;
+		}
+
+		return (await this.request('GET', path)).arrayBuffer;
+	}
+
+	async write(path: string, data: string | ArrayBuffer): Promise<void> {
+		try {
+			if (this.settings.httpApi === 'json') {
+				await this.post(typeof data === 'string'
+					? { action: 'write', path, encoding: 'utf8', content: data }
+					: { action: 'write', path, encoding: 'base64', content: arrayBufferToBase64(data) });
+				return;
+			}
+
+			await this.ensureCollectionExists(path.substring(0, path.lastIndexOf('/')));
+			await this.request('PUT', path, data);
+		} catch (error) {
+			this.failedPaths.push(path);
+			throw error;
+		}
+	}
+
+	async remove(path: string): Promise<void> {
+		try {
+			if (this.settings.httpApi === 'json') {
+				await this.post({ action: 'delete', path });
+				return;
+			}
+
+			await this.request('DELETE', path, undefined, [404]);
+		} catch (error) {
+			this.failedPaths.push(path);
+			throw error;
+		}
+	}
+
+	/**
+	 * Files are uploaded as they are written, so there is nothing left to send; report the ones that failed
+	 */
+	async flush(action: string, notePath?: string): Promise<string[]> {
+		const failedPaths = this.failedPaths;
+		this.failedPaths = [];
+
+		return failedPaths.length > 0
+			? [`${failedPaths.length} file(s) were not uploaded or deleted on the server: ${failedPaths.join(', ')}`]
+			: [];
+	}
+
+	/**
+	 * Create a WebDAV collection and its parents. Servers answer 405 for collections that already exist.
+	 */
+	private async ensureCollectionExists(folderPath: string): Promise<void> {
+		let currentPath = '';
+
+		for (const part of folderPath.split('/').filter(segment => segment)) {
+			currentPath = currentPath ? `${currentPath}/${part}` : part;
+			if (this.createdFolders.has(currentPath)) {
+				continue;
+			}
+
+			await this.request('MKCOL', `${currentPath}/`, undefined, [405]);
+			this.createdFolders.add(currentPath);
+		}
+	}
+
+	/**
+	 * Send a request to the JSON API
+	 */
+	private async post(body: Record<string, string>): Promise<RequestUrlResponse> {
+		return this.send({
+			url: this.settings.httpEndpoint,
+			method: 'POST',
+			contentType: 'application/json',
+			body: JSON.stringify(body)
+		}, body.path, []);
+	}
+
+	/**
+	 * Send a WebDAV request for a target path
+	 * @param allowedStatuses Error statuses that are an expected answer rather than a failure
+	 */
+	private async request(method: string, path: string, body?: string | ArrayBuffer, allowedStatuses: number[] = []): Promise<RequestUrlResponse> {
+		const encodedPath = path.split('/').map(segment => encodeURIComponent(segment)).join('/');
+		return this.send({
+			url: `${this.settings.httpEndpoint.replace(/\/+$/, '')}/${encodedPath}`,
+			method,
+			body,
+			contentType: typeof body === 'string' ? 'text/plain; charset=utf-8' : body ? 'application/octet-stream' : undefined
+		}, path, allowedStatuses);
+	}
+
+	/**
+	 * Send a request with authentication, retrying network errors, rate limits and server errors
+	 */
+	private async send(
+		params: { url: string; method: string; body?: string | ArrayBuffer; contentType?: string },
+		path: string,
+		allowedStatuses: number[]
+	): Promise<RequestUrlResponse> {
+		if (!this.settings.httpEndpoint) {
+			throw new Error('Please configure the upload endpoint in settings');
+		}
+
+		const retries = Math.max(0, this.settings.httpRetries);
+		let lastError = '';
+
+		for (let attempt = 0; attempt <= retries; attempt++) {
+			if (attempt > 0) {
+				await new Promise(resolve => window.setTimeout(resolve, 500 * Math.pow(2, attempt - 1)));
+			}
+
+			try {
+				const response = await requestUrl({ ...params, headers: this.getAuthHeaders(), throw: false });
+				if ((response.status >= 200 && response.status < 300) || allowedStatuses.includes(response.status)) {
+					return response;
+				}
+
+				lastError = `HTTP ${response.status}`;
+				if (response.status !== 429 && response.status < 500) {
+					break;
+				}
+			} catch (error) {
+				lastError = error.message;
+			}
+		}
+
+		throw new Error(`${params.method} ${path} failed: ${lastError}`);
+	}
+
+	private getAuthHeaders(): Record<string, string> {
+		switch (this.settings.httpAuth) {
+			case 'basic': {
+				const credentials = new TextEncoder().encode(`${this.settings.httpUsername}:${this.settings.httpPassword}`);
+				return { Authorization: `Basic ${arrayBufferToBase64(credentials.buffer)}` };
+			}
+			case 'bearer':
+				return { Authorization: `Bearer ${this.settings.httpToken}` };
+			default:
+				return {};
+		}
+	}
+}
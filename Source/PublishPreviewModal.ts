@@ -0,0 +1,122 @@
+import { App, Modal, Setting, TFile } from 'obsidian';
+import { PublishPlanEntry } from './types';
+
+const STATUS_LABELS: Record<PublishPlanEntry['targetStatus'], string> = {
+	new: 'New',
+	changed: 'Changed',
+	unchanged: 'Unchanged'
+};
+
+/**
+ * Modal that previews the publish set grouped by link depth and lets
+ * the user untick files to leave them out of this run
+ */
+export class PublishPreviewModal extends Modal {
+	private rootFile: TFile;
+	private plan: PublishPlanEntry[];
+	private onPublish: (selectedPaths: Set<string>) => void;
+	private selectedPaths: Set<string>;
+	private publishButtonEl: HTMLButtonElement | null = null;
+
+	constructor(app: App, rootFile: TFile, plan: PublishPlanEntry[], onPublish: (selectedPaths: Set<string>) => void) {
+		super(app);
+		this.rootFile = rootFile;
+		this.plan = plan;
+		this.onPublish = onPublish;
+		this.selectedPaths = new Set(plan.filter(entry => entry.kind !== 'drawing').map(entry => entry.file.path));
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.addClass('ns-publish-preview');
+
+		contentEl.createEl('h2', { text: `Publish ${this.rootFile.basename}` });
+
+		const totalSize = this.plan.reduce((sum, entry) => sum + entry.size, 0);
+		const noteCount = this.plan.filter(entry => entry.kind === 'note').length;
+		const attachmentCount = this.plan.filter(entry => entry.kind === 'attachment').length;
+		const drawingCount = this.plan.filter(entry => entry.kind === 'drawing').length;
+		contentEl.createEl('p', {
+			text: `${noteCount} note(s), ${attachmentCount} attachment(s), ${drawingCount} Excalidraw drawing(s) • ${this.formatSize(totalSize)}`
+		});
+
+		const treeEl = contentEl.createDiv({ cls: 'ns-publish-preview-tree' });
+		const depths = Array.from(new Set(this.plan.map(entry => entry.depth))).sort((a, b) => a - b);
+
+		for (const depth of depths) {
+			const groupEl = treeEl.createDiv({ cls: 'ns-publish-preview-group' });
+			groupEl.createEl('h4', { text: depth === 0 ? 'Root note' : `Depth ${depth}` });
+
+			this.plan
+				.filter(entry => entry.depth === depth)
+				.forEach(entry => this.renderEntry(groupEl, entry));
+		}
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Cancel')
+				.onClick(() => this.close()))
+			.addButton(button => {
+				this.publishButtonEl = button.buttonEl;
+				button
+					.setCta()
+					.onClick(() => {
+						this.close();
+						this.onPublish(new Set(this.selectedPaths));
+					});
+				this.updatePublishButton();
+			});
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private renderEntry(containerEl: HTMLElement, entry: PublishPlanEntry): void {
+		const rowEl = containerEl.createDiv({ cls: 'ns-publish-preview-row' });
+		rowEl.style.paddingLeft = `${entry.depth * 16}px`;
+
+		const checkboxEl = rowEl.createEl('input', { type: 'checkbox' });
+		checkboxEl.checked = this.selectedPaths.has(entry.file.path);
+		// The root is always published and drawings follow the notes that embed them
+		checkboxEl.disabled = entry.depth === 0 || entry.kind === 'drawing';
+		checkboxEl.addEventListener('change', () => {
+			if (checkboxEl.checked) {
+				this.selectedPaths.add(entry.file.path);
+			} else {
+				this.selectedPaths.delete(entry.file.path);
+			}
+			rowEl.toggleClass('is-excluded', !checkboxEl.checked);
+			this.updatePublishButton();
+		});
+
+		const infoEl = rowEl.createDiv({ cls: 'ns-publish-preview-info' });
+		infoEl.createSpan({ cls: 'ns-publish-preview-name', text: entry.file.name });
+
+		const details: string[] = [this.formatSize(entry.size)];
+		if (entry.kind === 'drawing') {
+			details.push('Excalidraw → image');
+		} else {
+			details.push(STATUS_LABELS[entry.targetStatus]);
+		}
+		if (entry.linkedFrom) {
+			details.push(`linked from ${entry.linkedFrom}`);
+		}
+
+		infoEl.createSpan({ cls: 'ns-publish-preview-details', text: details.join(' • ') });
+		rowEl.addClass(`is-${entry.kind}`, `is-${entry.targetStatus}`);
+	}
+
+	private updatePublishButton(): void {
+		if (this.publishButtonEl) {
+			this.publishButtonEl.setText(`Publish ${this.selectedPaths.size} file(s)`);
+		}
+	}
+
+	private formatSize(bytes: number): string {
+		if (bytes < 1024) {
+			return `${bytes} B`;
+		}
+		return `${Math.round(bytes / 1024 * 100) / 100} KB`;
+	}
+}
@@ -0,0 +1,80 @@
+import { App, Modal, Setting } from 'obsidian';
+import { PublishResult } from './types';
+
+/**
+ * Modal that reports the outcome of a batch publish: errors, skipped notes and
+ * every published, unchanged and attachment file, in collapsible sections
+ */
+export class PublishReportModal extends Modal {
+	private title: string;
+	private rootPaths: string[];
+	private result: PublishResult;
+	private resolvePromise: (() => void) | null = null;
+
+	constructor(app: App, title: string, rootPaths: string[], result: PublishResult) {
+		super(app);
+		this.title = title;
+		this.rootPaths = rootPaths;
+		this.result = result;
+	}
+
+	/**
+	 * Open the modal and wait until the user closes it
+	 */
+	waitForClose(): Promise<void> {
+		return new Promise(resolve => {
+			this.resolvePromise = resolve;
+			this.open();
+		});
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.addClass('ns-publish-report');
+
+		contentEl.createEl('h2', { text: this.title });
+
+		const { publishedFiles, publishedAttachments, unchangedFiles, skippedFiles, errors } = this.result;
+		const writtenFiles = Array.from(publishedFiles).filter(path => !unchangedFiles.has(path));
+		contentEl.createEl('p', {
+			text: `${this.rootPaths.length} note(s) selected • ${publishedFiles.size} note(s) and ${publishedAttachments.size} attachment(s) published `
+				+ `(${unchangedFiles.size} unchanged) • ${skippedFiles.size} skipped • ${errors.length} error(s)`
+		});
+
+		const listEl = contentEl.createDiv({ cls: 'ns-publish-report-list' });
+		this.addSection(listEl, 'Errors', errors, true);
+		this.addSection(listEl, 'Skipped', Array.from(skippedFiles.entries()).map(([path, reason]) => `${path}: ${reason}`), errors.length === 0);
+		this.addSection(listEl, 'Written', writtenFiles, false);
+		this.addSection(listEl, 'Attachments', Array.from(publishedAttachments), false);
+		this.addSection(listEl, 'Unchanged', Array.from(unchangedFiles), false);
+		this.addSection(listEl, 'Selected notes', this.rootPaths, false);
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Close')
+				.setCta()
+				.onClick(() => this.close()));
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+
+		if (this.resolvePromise) {
+			this.resolvePromise();
+			this.resolvePromise = null;
+		}
+	}
+
+	private addSection(containerEl: HTMLElement, title: string, items: string[], open: boolean): void {
+		if (items.length === 0) {
+			return;
+		}
+
+		const detailsEl = containerEl.createEl('details', { cls: `ns-publish-report-section is-${title.toLowerCase().replace(/\s+/g, '-')}` });
+		detailsEl.open = open;
+		detailsEl.createEl('summary', { text: `${title} (${items.length})` });
+
+		const itemsEl = detailsEl.createEl('ul');
+		items.forEach(item => itemsEl.createEl('li', { text: item }));
+	}
+}
@@ -0,0 +1,252 @@
+import { App } from 'obsidian';
+import { NSPublishSettings, Redaction } from './types';
+import { LinkExtractor } from './LinkExtractor';
+
+const FRONTMATTER_REG = /^---\r?\n([\s\S]*?)\r?\n---(?:\r?\n|$)/;
+const COMMENT_REG = /%%[\s\S]*?(?:%%|$)/g;
+const HEADING_REG = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const CALLOUT_REG = /^\s*((?:>\s*)+)\[!([^\]]+)\][+-]?/;
+const FRONTMATTER_KEY_REG = /^([^\s#-][^:]*):/;
+
+/**
+ * Removes private content from published copies according to the redaction rules in settings
+ */
+export class Redactor {
+	private app: App;
+	private settings: NSPublishSettings;
+	private linkExtractor: LinkExtractor;
+
+	constructor(app: App, settings: NSPublishSettings) {
+		this.app = app;
+		this.settings = settings;
+		this.linkExtractor = new LinkExtractor(app);
+	}
+
+	/**
+	 * Apply every redaction rule to note content
+	 * @param content The note content
+	 * @param sourcePath Path of the note, recorded with each redaction
+	 * @returns Redacted content and the redactions that were made
+	 */
+	redact(content: string, sourcePath: string): { content: string; redactions: Redaction[] } {
+		const redactions: Redaction[] = [];
+		const frontmatterMatch = content.match(FRONTMATTER_REG);
+		let frontmatter = frontmatterMatch ? frontmatterMatch[0] : '';
+		let body = content.substring(frontmatter.length);
+
+		if (this.settings.redactComments) {
+			body = this.removeComments(body, sourcePath, redactions);
+		}
+
+		body = this.removeBlocks(body, sourcePath, redactions);
+
+		if (frontmatterMatch && this.settings.frontmatterAllowlist.length > 0) {
+			frontmatter = this.filterFrontmatter(frontmatterMatch, sourcePath, redactions);
+		}
+
+		return { content: frontmatter + body, redactions };
+	}
+
+	/**
+	 * Find the parts of note content that redaction removes, as offsets into the original content,
+	 * so links can be read from the original with their real positions
+	 * @param content The note content
+	 * @returns Removed ranges, end exclusive
+	 */
+	findRedactedRanges(content: string): Array<{ start: number; end: number }> {
+		const ranges: Array<{ start: number; end: number }> = [];
+		const frontmatterMatch = content.match(FRONTMATTER_REG);
+		const frontmatterLength = frontmatterMatch ? frontmatterMatch[0].length : 0;
+		let body = content.substring(frontmatterLength);
+
+		if (frontmatterMatch && this.settings.frontmatterAllowlist.length > 0) {
+			const removedLines = this.findRemovedFrontmatterLines(frontmatterMatch[1].split(/\r?\n/), '', []);
+			let offset = frontmatterMatch[0].indexOf('\n') + 1;
+			frontmatterMatch[1].split('\n').forEach((line, i) => {
+				if (removedLines[i]) {
+					ranges.push({ start: offset, end: offset + line.length + 1 });
+				}
+				offset += line.length + 1;
+			});
+		}
+
+		const commentRanges = this.settings.redactComments ? this.findCommentRanges(body) : [];
+		commentRanges.forEach(range => ranges.push({ start: range.start + frontmatterLength, end: range.end + frontmatterLength }));
+		body = this.removeRanges(body, commentRanges);
+
+		// Blocks are found in the content without comments, so map their offsets back past removed comments
+		const toOriginal = (offset: number) => {
+			let original = offset;
+			for (const range of commentRanges) {
+				if (range.start > original) {
+					break;
+				}
+				original += range.end - range.start;
+			}
+			return original + frontmatterLength;
+		};
+
+		const removedLines = this.findRemovedBlockLines(body, '', []);
+		let offset = 0;
+		body.split('\n').forEach((line, i) => {
+			if (removedLines[i]) {
+				ranges.push({ start: toOriginal(offset), end: toOriginal(offset + line.length + 1) });
+			}
+			offset += line.length + 1;
+		});
+
+		return ranges;
+	}
+
+	/**
+	 * Remove `%% comments %%` outside of code
+	 */
+	private removeComments(body: string, sourcePath: string, redactions: Redaction[]): string {
+		const ranges = this.findCommentRanges(body);
+		ranges.forEach(range => redactions.push({
+			sourcePath,
+			rule: 'comment',
+			detail: this.summarize(body.substring(range.start, range.end))
+		}));
+
+		return this.removeRanges(body, ranges);
+	}
+
+	/**
+	 * Find `%% comments %%` outside of code, in order
+	 */
+	private findCommentRanges(body: string): Array<{ start: number; end: number }> {
+		const masked = this.linkExtractor.maskCode(body);
+		const ranges: Array<{ start: number; end: number }> = [];
+
+		for (const match of masked.matchAll(COMMENT_REG)) {
+			const start = match.index ?? 0;
+			ranges.push({ start, end: start + match[0].length });
+		}
+
+		return ranges;
+	}
+
+	private removeRanges(text: string, ranges: Array<{ start: number; end: number }>): string {
+		let result = text;
+		for (const range of [...ranges].reverse()) {
+			result = result.substring(0, range.start) + result.substring(range.end);
+		}
+		return result;
+	}
+
+	/**
+	 * Remove private callouts and sections under private headings, line by line outside of code
+	 */
+	private removeBlocks(body: string, sourcePath: string, redactions: Redaction[]): string {
+		const removedLines = this.findRemovedBlockLines(body, sourcePath, redactions);
+		return body.split('\n').filter((line, i) => !removedLines[i]).join('\n');
+	}
+
+	/**
+	 * Flag the lines of private callouts and of sections under private headings
+	 * @returns Whether each line is removed
+	 */
+	private findRemovedBlockLines(body: string, sourcePath: string, redactions: Redaction[]): boolean[] {
+		const calloutTypes = this.settings.redactCalloutTypes.map(type => type.toLowerCase());
+		const headings = this.settings.redactHeadings.map(heading => heading.toLowerCase());
+		const maskedLines = this.linkExtractor.maskCode(body).split('\n');
+		const removedLines = maskedLines.map(() => false);
+		if (calloutTypes.length === 0 && headings.length === 0) {
+			return removedLines;
+		}
+
+		let sectionLevel = 0;
+		let calloutDepth = 0;
+
+		for (let i = 0; i < maskedLines.length; i++) {
+			const maskedLine = maskedLines[i];
+			const headingMatch = maskedLine.match(HEADING_REG);
+			removedLines[i] = true;
+
+			if (sectionLevel > 0) {
+				if (!headingMatch || headingMatch[1].length > sectionLevel) {
+					continue;
+				}
+				sectionLevel = 0;
+			}
+
+			if (calloutDepth > 0) {
+				if (this.getQuoteDepth(maskedLine) >= calloutDepth) {
+					continue;
+				}
+				calloutDepth = 0;
+			}
+
+			if (headingMatch && headings.includes(headingMatch[2].trim().toLowerCase())) {
+				sectionLevel = headingMatch[1].length;
+				redactions.push({ sourcePath, rule: 'section', detail: headingMatch[2].trim() });
+				continue;
+			}
+
+			const calloutMatch = maskedLine.match(CALLOUT_REG);
+			if (calloutMatch && calloutTypes.includes(calloutMatch[2].trim().toLowerCase())) {
+				calloutDepth = this.getQuoteDepth(maskedLine);
+				redactions.push({ sourcePath, rule: 'callout', detail: `[!${calloutMatch[2].trim()}]` });
+				continue;
+			}
+
+			removedLines[i] = false;
+		}
+
+		return removedLines;
+	}
+
+	/**
+	 * Keep only allowlisted top-level frontmatter keys, including their nested values
+	 */
+	private filterFrontmatter(frontmatterMatch: RegExpMatchArray, sourcePath: string, redactions: Redaction[]): string {
+		const lines = frontmatterMatch[1].split(/\r?\n/);
+		const removedLines = this.findRemovedFrontmatterLines(lines, sourcePath, redactions);
+		const kept = lines.filter((line, i) => !removedLines[i]);
+
+		if (kept.every(line => !line.trim())) {
+			return '';
+		}
+
+		const lineBreak = frontmatterMatch[0].includes('\r\n') ? '\r\n' : '\n';
+		return `---${lineBreak}${kept.join(lineBreak)}${lineBreak}---${lineBreak}`;
+	}
+
+	/**
+	 * Flag the frontmatter lines of keys that aren't allowlisted
+	 * @returns Whether each line is removed
+	 */
+	private findRemovedFrontmatterLines(lines: string[], sourcePath: string, redactions: Redaction[]): boolean[] {
+		const allowlist = this.settings.frontmatterAllowlist.map(key => key.toLowerCase());
+		let keepCurrentKey = true;
+
+		return lines.map(line => {
+			const keyMatch = line.match(FRONTMATTER_KEY_REG);
+
+			if (keyMatch) {
+				const key = keyMatch[1].trim().replace(/^["']|["']$/g, '');
+				keepCurrentKey = allowlist.includes(key.toLowerCase());
+				if (!keepCurrentKey) {
+					redactions.push({ sourcePath, rule: 'frontmatter', detail: key });
+				}
+			}
+
+			return !keepCurrentKey;
+		});
+	}
+
+	private getQuoteDepth(line: string): number {
+		const match = line.match(/^\s*((?:>\s*)+)/);
+		return match ? (match[1].match(/>/g) || []).length : 0;
+	}
+
+	private summarize(text: string): string {
+		const singleLine = text.replace(/\s+/g, ' ').trim();
+		return singleLine.length > 60 ? `${singleLine.substring(0, 57)}...` : singleLine;
+	}
+
+	updateSettings(newSettings: NSPublishSettings): void {
+		this.settings = newSettings;
+	}
+}
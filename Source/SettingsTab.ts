@@ -1,9 +1,12 @@
 import { App, PluginSettingTab, Setting } from 'obsidian';
-import { NSPublishSettings } from './types';
+import { createProfile } from './Profiles';
+import { writesToFileSystem } from './PublishOutput';
+import { NSPublishPluginSettings, PublishProfile, DEFAULT_GIT_COMMIT_TEMPLATE, UnpublishedLinkPolicy, SlugPreset, OutputMode, HttpApi, HttpAuth, LinkValidationMode, OutputDialect, CalloutStyle, TagStyle } from './types';
 
 export interface NSPublishPlugin {
-	settings: NSPublishSettings;
+	settings: NSPublishPluginSettings;
 	saveSettings(): Promise<void>;
+	getActiveProfile(): PublishProfile;
 }
 
 export class NSPublishSettingTab extends PluginSettingTab {
@@ -21,26 +24,146 @@ export class NSPublishSettingTab extends PluginSettingTab {
 
 		containerEl.createEl('h2', { text: 'NS Publish Settings' });
 
+		// Profile settings section; everything up to "Shared Settings" belongs to the selected profile
+		containerEl.createEl('h3', { text: 'Profiles' });
+
+		const profile = this.plugin.getActiveProfile();
+
+		new Setting(containerEl)
+			.setName('Profile')
+			.setDesc('Profile to edit, also used by the general publish commands. Each profile also gets its own "Publish current note to" command')
+			.addDropdown(dropdown => {
+				this.plugin.settings.profiles.forEach(candidate => dropdown.addOption(candidate.id, candidate.name));
+				dropdown
+					.setValue(profile.id)
+					.onChange(async (value) => {
+						this.plugin.settings.activeProfileId = value;
+						await this.plugin.saveSettings();
+						this.display(); // Refresh to show the selected profile
+					});
+			})
+			.addButton(button => button
+				.setButtonText('Add')
+				.onClick(async () => {
+					await this.addProfile(createProfile(`Profile ${this.plugin.settings.profiles.length + 1}`));
+				}))
+			.addButton(button => button
+				.setButtonText('Clone')
+				.onClick(async () => {
+					await this.addProfile(createProfile(`${profile.name} copy`, profile));
+				}))
+			.addButton(button => button
+				.setButtonText('Delete')
+				.setWarning()
+				.setDisabled(this.plugin.settings.profiles.length <= 1)
+				.onClick(async () => {
+					this.plugin.settings.profiles = this.plugin.settings.profiles.filter(candidate => candidate.id !== profile.id);
+					this.plugin.settings.activeProfileId = this.plugin.settings.profiles[0].id;
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		new Setting(containerEl)
+			.setName('Profile Name')
+			.setDesc('Shown in the ribbon menu and in the profile\'s command name (after reload)')
+			.addText(text => text
+				.setValue(profile.name)
+				.onChange(async (value) => {
+					if (value.trim()) {
+						profile.name = value.trim();
+						await this.plugin.saveSettings();
+					}
+				}));
+
+		// Output mode setting
+		new Setting(containerEl)
+			.setName('Output')
+			.setDesc('Publish into a folder of this vault, into a directory outside it such as a web server\'s content root or a Git repository (desktop only), or upload to a server')
+			.addDropdown(dropdown => dropdown
+				.addOption('vault', 'Folder in this vault')
+				.addOption('filesystem', 'Folder outside the vault')
+				.addOption('git', 'Git repository (commit after publishing)')
+				.addOption('http', 'Upload over HTTP or WebDAV')
+				.setValue(profile.outputMode)
+				.onChange(async (value) => {
+					profile.outputMode = value as OutputMode;
+					await this.plugin.saveSettings();
+					this.display(); // Refresh to describe the target folder for this mode
+				}));
+
 		// Target folder path setting
+		const isOutsideVault = writesToFileSystem(profile.outputMode);
+		const targetFolderDescriptions: Record<OutputMode, string> = {
+			vault: 'Folder within this vault where notes will be copied (e.g., "700_Publish")',
+			filesystem: 'Absolute path of the directory notes will be written to (e.g., "/srv/www/content" or "C:/Sites/content")',
+			git: 'Absolute path of the repository, or of a folder inside its working tree, that notes will be written to',
+			http: 'Folder on the server, relative to the endpoint, that notes will be uploaded to (e.g., "content")'
+		};
 		new Setting(containerEl)
 			.setName('Target Folder Path')
-			.setDesc('Folder within this vault where notes will be copied (e.g., "700_Publish")')
+			.setDesc(targetFolderDescriptions[profile.outputMode])
 			.addText(text => text
-				.setPlaceholder('700_Publish')
-				.setValue(this.plugin.settings.targetFolderPath)
+				.setPlaceholder(isOutsideVault ? '/srv/www/content' : '700_Publish')
+				.setValue(profile.targetFolderPath)
 				.onChange(async (value) => {
-					this.plugin.settings.targetFolderPath = value.trim();
+					// Published paths always use forward slashes, which Windows accepts too
+					profile.targetFolderPath = isOutsideVault
+						? value.trim().replace(/\\/g, '/').replace(/(.)\/+$/, '$1')
+						: value.trim();
 					await this.plugin.saveSettings();
 				}));
 
+		// Git settings (only show for Git output)
+		if (profile.outputMode === 'git') {
+			new Setting(containerEl)
+				.setName('Commit Message')
+				.setDesc('Placeholders: {action} (e.g., Publish), {note}, {count} and {files}, the list of changed files')
+				.addTextArea(text => text
+					.setPlaceholder(DEFAULT_GIT_COMMIT_TEMPLATE)
+					.setValue(profile.gitCommitTemplate)
+					.onChange(async (value) => {
+						profile.gitCommitTemplate = value;
+						await this.plugin.saveSettings();
+					}));
+
+			new Setting(containerEl)
+				.setName('Push After Commit')
+				.setDesc('Push the current branch after each commit')
+				.addToggle(toggle => toggle
+					.setValue(profile.gitPush)
+					.onChange(async (value) => {
+						profile.gitPush = value;
+						await this.plugin.saveSettings();
+						this.display(); // Refresh to show/hide remote setting
+					}));
+
+			if (profile.gitPush) {
+				new Setting(containerEl)
+					.setName('Remote')
+					.setDesc('Remote to push to')
+					.addText(text => text
+						.setPlaceholder('origin')
+						.setValue(profile.gitRemote)
+						.onChange(async (value) => {
+							profile.gitRemote = value.trim();
+							await this.plugin.saveSettings();
+						}));
+			}
+		}
+
+		// Upload settings (only show for HTTP output)
+		if (profile.outputMode === 'http') {
+			this.displayHttpSettings(containerEl, profile);
+		}
+
 		// Include linked notes setting
 		new Setting(containerEl)
 			.setName('Include Linked Notes')
 			.setDesc('Also copy notes that are linked via wikilinks')
 			.addToggle(toggle => toggle
-				.setValue(this.plugin.settings.includeLinkedNotes)
+				.setValue(profile.includeLinkedNotes)
 				.onChange(async (value) => {
-					this.plugin.settings.includeLinkedNotes = value;
+					profile.includeLinkedNotes = value;
 					await this.plugin.saveSettings();
 				}));
 
@@ -50,11 +173,11 @@ export class NSPublishSettingTab extends PluginSettingTab {
 			.setDesc('Maximum depth to follow wikilinks (prevents infinite loops)')
 			.addText(text => text
 				.setPlaceholder('5')
-				.setValue(String(this.plugin.settings.maxDepth))
+				.setValue(String(profile.maxDepth))
 				.onChange(async (value) => {
 					const numValue = parseInt(value);
 					if (!isNaN(numValue) && numValue > 0 && numValue <= 20) {
-						this.plugin.settings.maxDepth = numValue;
+						profile.maxDepth = numValue;
 						await this.plugin.saveSettings();
 					}
 				}));
@@ -64,9 +187,9 @@ export class NSPublishSettingTab extends PluginSettingTab {
 			.setName('Preserve Folder Structure')
 			.setDesc('Maintain the same folder structure in target vault')
 			.addToggle(toggle => toggle
-				.setValue(this.plugin.settings.preserveFolderStructure)
+				.setValue(profile.preserveFolderStructure)
 				.onChange(async (value) => {
-					this.plugin.settings.preserveFolderStructure = value;
+					profile.preserveFolderStructure = value;
 					await this.plugin.saveSettings();
 				}));
 
@@ -75,23 +198,23 @@ export class NSPublishSettingTab extends PluginSettingTab {
 			.setName('Add Publish Prefix')
 			.setDesc('Add a prefix to published file names')
 			.addToggle(toggle => toggle
-				.setValue(this.plugin.settings.addPublishPrefix)
+				.setValue(profile.addPublishPrefix)
 				.onChange(async (value) => {
-					this.plugin.settings.addPublishPrefix = value;
+					profile.addPublishPrefix = value;
 					await this.plugin.saveSettings();
 					this.display(); // Refresh to show/hide prefix setting
 				}));
 
 		// Publish prefix setting (only show if enabled)
-		if (this.plugin.settings.addPublishPrefix) {
+		if (profile.addPublishPrefix) {
 			new Setting(containerEl)
 				.setName('Publish Prefix')
 				.setDesc('Prefix to add to published file names')
 				.addText(text => text
 					.setPlaceholder('published_')
-					.setValue(this.plugin.settings.publishPrefix)
+					.setValue(profile.publishPrefix)
 					.onChange(async (value) => {
-						this.plugin.settings.publishPrefix = value;
+						profile.publishPrefix = value;
 						await this.plugin.saveSettings();
 					}));
 		}
@@ -102,9 +225,9 @@ export class NSPublishSettingTab extends PluginSettingTab {
 			.setDesc('Comma-separated patterns to exclude from linking (supports regex)')
 			.addTextArea(text => text
 				.setPlaceholder('template.*,^_.*,daily/.*')
-				.setValue(this.plugin.settings.excludePatterns.join(', '))
+				.setValue(profile.excludePatterns.join(', '))
 				.onChange(async (value) => {
-					this.plugin.settings.excludePatterns = value
+					profile.excludePatterns = value
 						.split(',')
 						.map(p => p.trim())
 						.filter(p => p.length > 0);
@@ -117,9 +240,292 @@ export class NSPublishSettingTab extends PluginSettingTab {
 			.setDesc('Base URL for generating shareable links (copied to clipboard after publishing)')
 			.addText(text => text
 				.setPlaceholder('http://172.28.35.242:8080')
-				.setValue(this.plugin.settings.baseUrl)
+				.setValue(profile.baseUrl)
+				.onChange(async (value) => {
+					profile.baseUrl = value;
+					await this.plugin.saveSettings();
+				}));
+
+		// Slug preset setting
+		new Setting(containerEl)
+			.setName('Slug Style')
+			.setDesc('How published URLs are built from file names. Frontmatter "slug" and "permalink" override it per note')
+			.addDropdown(dropdown => dropdown
+				.addOption('default', 'Default (spaces → hyphens, & → --and--)')
+				.addOption('kebab', 'Lowercase kebab-case')
+				.addOption('quartz', 'Quartz')
+				.addOption('mkdocs', 'MkDocs')
+				.addOption('custom', 'Custom template')
+				.setValue(profile.slugPreset)
+				.onChange(async (value) => {
+					profile.slugPreset = value as SlugPreset;
+					await this.plugin.saveSettings();
+					this.display(); // Refresh to show/hide template setting
+				}));
+
+		// Custom slug template setting (only show if selected)
+		if (profile.slugPreset === 'custom') {
+			new Setting(containerEl)
+				.setName('Slug Template')
+				.setDesc('Placeholders: {folder}, {name}, {kebab-folder}, {kebab-name}, {lower-folder}, {lower-name}')
+				.addText(text => text
+					.setPlaceholder('{kebab-folder}/{kebab-name}')
+					.setValue(profile.slugTemplate)
+					.onChange(async (value) => {
+						profile.slugTemplate = value.trim();
+						await this.plugin.saveSettings();
+					}));
+		}
+
+		// Slug file names setting
+		new Setting(containerEl)
+			.setName('Use Slugs as File Names')
+			.setDesc('Name published files after their slugs, for sites that serve files under their own names')
+			.addToggle(toggle => toggle
+				.setValue(profile.slugFileNames)
+				.onChange(async (value) => {
+					profile.slugFileNames = value;
+					await this.plugin.saveSettings();
+				}));
+
+		// Auto-publish setting
+		new Setting(containerEl)
+			.setName('Auto-Publish')
+			.setDesc('Republish published notes, their attachments and drawings when they change; renamed and deleted notes are removed from the published files. Click the status bar item to pause')
+			.addToggle(toggle => toggle
+				.setValue(profile.autoPublish)
+				.onChange(async (value) => {
+					profile.autoPublish = value;
+					await this.plugin.saveSettings();
+				}));
+
+		// Settings shared by all profiles
+		containerEl.createEl('h3', { text: 'Shared Settings' });
+
+		// Attachment folder setting
+		new Setting(containerEl)
+			.setName('Attachment Folder')
+			.setDesc('Folder inside the target folder for images, PDFs and other attachments, which keep their vault folders inside it. Leave empty to place them next to the notes')
+			.addText(text => text
+				.setPlaceholder('_Attachments')
+				.setValue(this.plugin.settings.attachmentFolderPath)
 				.onChange(async (value) => {
-					this.plugin.settings.baseUrl = value;
+					this.plugin.settings.attachmentFolderPath = value.trim().replace(/^\/+|\/+$/g, '');
+					await this.plugin.saveSettings();
+				}));
+
+		// Unpublished link policy setting
+		new Setting(containerEl)
+			.setName('Links to Unpublished Notes')
+			.setDesc('How links to notes that were not published (excluded or beyond the maximum depth) are written in published copies')
+			.addDropdown(dropdown => dropdown
+				.addOption('text', 'Plain text')
+				.addOption('url', 'External URL from Base URL')
+				.addOption('keep', 'Leave as-is')
+				.setValue(this.plugin.settings.unpublishedLinkPolicy)
+				.onChange(async (value) => {
+					this.plugin.settings.unpublishedLinkPolicy = value as UnpublishedLinkPolicy;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Inline Embedded Notes')
+			.setDesc('Replace note embeds such as ![[Note#Section]] with the embedded content, so embedded notes don\'t need to be published separately')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.flattenTransclusions)
+				.onChange(async (value) => {
+					this.plugin.settings.flattenTransclusions = value;
+					await this.plugin.saveSettings();
+				}));
+
+		// Link validation setting
+		new Setting(containerEl)
+			.setName('Link Validation')
+			.setDesc('Check for unresolved, ambiguous and cut-off links before publishing')
+			.addDropdown(dropdown => dropdown
+				.addOption('warn', 'Warn and publish')
+				.addOption('block', 'Block publishing')
+				.addOption('ignore', 'Ignore')
+				.setValue(this.plugin.settings.linkValidationMode)
+				.onChange(async (value) => {
+					this.plugin.settings.linkValidationMode = value as LinkValidationMode;
+					await this.plugin.saveSettings();
+				}));
+
+		// Auto-publish delay setting
+		new Setting(containerEl)
+			.setName('Auto-Publish Delay')
+			.setDesc('Seconds to wait after the last change before auto-publishing')
+			.addText(text => text
+				.setPlaceholder('10')
+				.setValue(String(this.plugin.settings.autoPublishDelay))
+				.onChange(async (value) => {
+					const numValue = parseInt(value);
+					if (!isNaN(numValue) && numValue > 0 && numValue <= 3600) {
+						this.plugin.settings.autoPublishDelay = numValue;
+						await this.plugin.saveSettings();
+					}
+				}));
+
+		// Output format settings section
+		containerEl.createEl('h3', { text: 'Output Format' });
+
+		new Setting(containerEl)
+			.setName('Markdown Dialect')
+			.setDesc('Keep Obsidian syntax, or convert wikilinks, embeds, highlights, callouts and comments to portable CommonMark/GFM')
+			.addDropdown(dropdown => dropdown
+				.addOption('obsidian', 'Obsidian')
+				.addOption('commonmark', 'CommonMark/GFM')
+				.setValue(this.plugin.settings.outputDialect)
+				.onChange(async (value) => {
+					this.plugin.settings.outputDialect = value as OutputDialect;
+					await this.plugin.saveSettings();
+					this.display(); // Refresh to show/hide CommonMark options
+				}));
+
+		if (this.plugin.settings.outputDialect === 'commonmark') {
+			new Setting(containerEl)
+				.setName('Callout Style')
+				.setDesc('How callouts are written')
+				.addDropdown(dropdown => dropdown
+					.addOption('blockquote', 'Blockquote with bold title')
+					.addOption('admonition', 'Admonition (!!! note)')
+					.setValue(this.plugin.settings.calloutStyle)
+					.onChange(async (value) => {
+						this.plugin.settings.calloutStyle = value as CalloutStyle;
+						await this.plugin.saveSettings();
+					}));
+
+			new Setting(containerEl)
+				.setName('Tags')
+				.setDesc('How inline #tags are written')
+				.addDropdown(dropdown => dropdown
+					.addOption('keep', 'Keep as-is')
+					.addOption('text', 'Plain word without #')
+					.addOption('remove', 'Remove')
+					.setValue(this.plugin.settings.tagStyle)
+					.onChange(async (value) => {
+						this.plugin.settings.tagStyle = value as TagStyle;
+						await this.plugin.saveSettings();
+					}));
+		}
+
+		// Excalidraw export settings section
+		containerEl.createEl('h3', { text: 'Excalidraw Export' });
+
+		new Setting(containerEl)
+			.setName('Image Format')
+			.setDesc('Format of images exported from Excalidraw drawings')
+			.addDropdown(dropdown => dropdown
+				.addOption('png', 'PNG')
+				.addOption('svg', 'SVG')
+				.setValue(this.plugin.settings.excalidrawExport.format)
+				.onChange(async (value) => {
+					this.plugin.settings.excalidrawExport.format = value as 'png' | 'svg';
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Export Scale')
+			.setDesc('Scale factor for exported images (use 2 or 3 for high-DPI screens)')
+			.addText(text => text
+				.setPlaceholder('1')
+				.setValue(String(this.plugin.settings.excalidrawExport.scale))
+				.onChange(async (value) => {
+					const numValue = parseFloat(value);
+					if (!isNaN(numValue) && numValue > 0 && numValue <= 10) {
+						this.plugin.settings.excalidrawExport.scale = numValue;
+						await this.plugin.saveSettings();
+					}
+				}));
+
+		new Setting(containerEl)
+			.setName('Dark Mode')
+			.setDesc('Export drawings with the dark theme')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.excalidrawExport.darkMode)
+				.onChange(async (value) => {
+					this.plugin.settings.excalidrawExport.darkMode = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Transparent Background')
+			.setDesc('Export drawings without a background')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.excalidrawExport.transparent)
+				.onChange(async (value) => {
+					this.plugin.settings.excalidrawExport.transparent = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Padding')
+			.setDesc('Padding around exported drawings, in pixels')
+			.addText(text => text
+				.setPlaceholder('10')
+				.setValue(String(this.plugin.settings.excalidrawExport.padding))
+				.onChange(async (value) => {
+					const numValue = parseInt(value);
+					if (!isNaN(numValue) && numValue >= 0) {
+						this.plugin.settings.excalidrawExport.padding = numValue;
+						await this.plugin.saveSettings();
+					}
+				}));
+
+		new Setting(containerEl)
+			.setName('List Diagram Links')
+			.setDesc('Add a "Linked from this diagram" list under exported drawings, since images cannot carry clickable links')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.excalidrawLinkList)
+				.onChange(async (value) => {
+					this.plugin.settings.excalidrawLinkList = value;
+					await this.plugin.saveSettings();
+				}));
+
+		// Redaction settings section
+		containerEl.createEl('h3', { text: 'Redaction' });
+
+		new Setting(containerEl)
+			.setName('Strip Comments')
+			.setDesc('Remove %% comments %% from published copies')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.redactComments)
+				.onChange(async (value) => {
+					this.plugin.settings.redactComments = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Private Callout Types')
+			.setDesc('Comma-separated callout types to remove (e.g., "private" removes > [!private] callouts)')
+			.addText(text => text
+				.setPlaceholder('private, todo')
+				.setValue(this.plugin.settings.redactCalloutTypes.join(', '))
+				.onChange(async (value) => {
+					this.plugin.settings.redactCalloutTypes = this.parseList(value);
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Private Headings')
+			.setDesc('Comma-separated heading names whose sections are removed, including subsections')
+			.addText(text => text
+				.setPlaceholder('Private, Notes to self')
+				.setValue(this.plugin.settings.redactHeadings.join(', '))
+				.onChange(async (value) => {
+					this.plugin.settings.redactHeadings = this.parseList(value);
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Frontmatter Allowlist')
+			.setDesc('Comma-separated frontmatter keys to keep in published copies. Leave empty to keep all keys')
+			.addText(text => text
+				.setPlaceholder('title, tags, aliases')
+				.setValue(this.plugin.settings.frontmatterAllowlist.join(', '))
+				.onChange(async (value) => {
+					this.plugin.settings.frontmatterAllowlist = this.parseList(value);
 					await this.plugin.saveSettings();
 				}));
 
@@ -133,7 +539,7 @@ export class NSPublishSettingTab extends PluginSettingTab {
 		infoDiv.style.borderRadius = '5px';
 		infoDiv.style.marginBottom = '15px';
 		infoDiv.createEl('p', { text: `Current vault: ${this.app.vault.getName()}` });
-		infoDiv.createEl('p', { text: `Target path: ${this.plugin.settings.targetFolderPath}` });
+		infoDiv.createEl('p', { text: `Target path: ${profile.targetFolderPath}` });
 
 		// Help text
 		const helpDiv = containerEl.createDiv();
@@ -145,6 +551,7 @@ export class NSPublishSettingTab extends PluginSettingTab {
 			<li>Higher max depth values may slow down publishing</li>
 			<li>Folder structure preservation maintains original organization</li>
 			<li>Prefix helps distinguish published files from originals</li>
+			<li>Links in published copies are rewritten to the published file names</li>
 		`;
 
 		// Add some styling
@@ -153,4 +560,114 @@ export class NSPublishSettingTab extends PluginSettingTab {
 		helpDiv.style.borderRadius = '5px';
 		helpDiv.style.marginTop = '20px';
 	}
+
+	/**
+	 * Show the endpoint, API, authentication and retry settings of HTTP output
+	 */
+	private displayHttpSettings(containerEl: HTMLElement, profile: PublishProfile): void {
+		new Setting(containerEl)
+			.setName('Upload Endpoint')
+			.setDesc('WebDAV folder URL, or the URL of the JSON API (e.g., "https://example.com/dav")')
+			.addText(text => text
+				.setPlaceholder('https://example.com/dav')
+				.setValue(profile.httpEndpoint)
+				.onChange(async (value) => {
+					profile.httpEndpoint = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Upload API')
+			.setDesc('WebDAV uses PUT, MKCOL and DELETE. The JSON API gets POST requests like { "action": "write", "path", "encoding", "content" }')
+			.addDropdown(dropdown => dropdown
+				.addOption('webdav', 'WebDAV')
+				.addOption('json', 'JSON POST API')
+				.setValue(profile.httpApi)
+				.onChange(async (value) => {
+					profile.httpApi = value as HttpApi;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Authentication')
+			.setDesc('Credentials are stored in this plugin\'s settings')
+			.addDropdown(dropdown => dropdown
+				.addOption('none', 'None')
+				.addOption('basic', 'Basic (username and password)')
+				.addOption('bearer', 'Bearer token')
+				.setValue(profile.httpAuth)
+				.onChange(async (value) => {
+					profile.httpAuth = value as HttpAuth;
+					await this.plugin.saveSettings();
+					this.display(); // Refresh to show/hide credential settings
+				}));
+
+		if (profile.httpAuth === 'basic') {
+			new Setting(containerEl)
+				.setName('Username')
+				.addText(text => text
+					.setValue(profile.httpUsername)
+					.onChange(async (value) => {
+						profile.httpUsername = value;
+						await this.plugin.saveSettings();
+					}));
+
+			new Setting(containerEl)
+				.setName('Password')
+				.addText(text => {
+					text.inputEl.type = 'password';
+					text
+						.setValue(profile.httpPassword)
+						.onChange(async (value) => {
+							profile.httpPassword = value;
+							await this.plugin.saveSettings();
+						});
+				});
+		}
+
+		if (profile.httpAuth === 'bearer') {
+			new Setting(containerEl)
+				.setName('Token')
+				.addText(text => {
+					text.inputEl.type = 'password';
+					text
+						.setValue(profile.httpToken)
+						.onChange(async (value) => {
+							profile.httpToken = value.trim();
+							await this.plugin.saveSettings();
+						});
+				});
+		}
+
+		new Setting(containerEl)
+			.setName('Retries')
+			.setDesc('How often a failed upload is retried after network errors, rate limits and server errors')
+			.addText(text => text
+				.setPlaceholder('3')
+				.setValue(String(profile.httpRetries))
+				.onChange(async (value) => {
+					const numValue = parseInt(value);
+					if (!isNaN(numValue) && numValue >= 0 && numValue <= 10) {
+						profile.httpRetries = numValue;
+						await this.plugin.saveSettings();
+					}
+				}));
+	}
+
+	/**
+	 * Add a profile and switch to it
+	 */
+	private async addProfile(profile: PublishProfile): Promise<void> {
+		this.plugin.settings.profiles.push(profile);
+		this.plugin.settings.activeProfileId = profile.id;
+		await this.plugin.saveSettings();
+		this.display();
+	}
+
+	private parseList(value: string): string[] {
+		return value
+			.split(',')
+			.map(item => item.trim())
+			.filter(item => item.length > 0);
+	}
 }
\ No newline at end of file
@@ -0,0 +1,148 @@
+import { App, TFile } from 'obsidian';
+import { NSPublishSettings } from './types';
+import { DirectiveReader } from './DirectiveReader';
+
+/**
+ * Decides where a file lands inside the target folder and which URL it is served from.
+ * Target paths and published URLs both come from the same published path and slug rules.
+ */
+export class Slugger {
+	private app: App;
+	private settings: NSPublishSettings;
+	private directiveReader: DirectiveReader;
+
+	constructor(app: App, settings: NSPublishSettings) {
+		this.app = app;
+		this.settings = settings;
+		this.directiveReader = new DirectiveReader(app);
+	}
+
+	/**
+	 * Get the path of a file relative to the target folder, including its extension.
+	 * Applies publish-path, the publish prefix, folder flattening, frontmatter slugs
+	 * and, if enabled, the slug rules to the file and folder names.
+	 */
+	getPublishedPath(file: TFile): string {
+		const directives = file.extension === 'md' ? this.directiveReader.read(file) : undefined;
+		const extension = file.extension ? `.${file.extension}` : '';
+		let folder: string;
+		let basename: string;
+
+		if (directives?.path) {
+			// publish-path pins the note inside the target folder; a trailing slash keeps the file name
+			const pinnedPath = directives.path.endsWith('/') ? `${directives.path}${file.basename}` : directives.path.replace(/\.md$/, '');
+			folder = pinnedPath.includes('/') ? pinnedPath.substring(0, pinnedPath.lastIndexOf('/')) : '';
+			basename = pinnedPath.substring(pinnedPath.lastIndexOf('/') + 1);
+		} else {
+			const parentPath = file.parent && file.parent.path !== '/' ? file.parent.path : '';
+			folder = this.settings.preserveFolderStructure ? parentPath : '';
+			basename = this.settings.addPublishPrefix ? `${this.settings.publishPrefix}${file.basename}` : file.basename;
+		}
+
+		if (directives?.slug) {
+			basename = directives.slug;
+		}
+
+		let publishedPath = folder ? `${folder}/${basename}` : basename;
+		if (this.settings.slugFileNames) {
+			publishedPath = this.slugifyPath(publishedPath);
+		}
+
+		return `${publishedPath}${extension}`;
+	}
+
+	/**
+	 * Get the URL a published note is served from
+	 * @returns The URL, or null when no base URL is configured
+	 */
+	getPublishedUrl(file: TFile): string | null {
+		if (!this.settings.baseUrl) {
+			return null;
+		}
+
+		const baseUrl = this.settings.baseUrl.replace(/\/+$/, '');
+		const permalink = file.extension === 'md' ? this.directiveReader.read(file).permalink : undefined;
+		if (permalink) {
+			return `${baseUrl}/${permalink.replace(/^\/+/, '')}`;
+		}
+
+		// Slugged file names are already the URL path
+		const pathWithoutExtension = this.getPublishedPath(file).replace(/\.md$/, '');
+		const slugPath = this.settings.slugFileNames ? pathWithoutExtension : this.slugifyPath(pathWithoutExtension);
+		const encodedPath = slugPath
+			.split('/')
+			.map(segment => encodeURIComponent(segment))
+			.join('/');
+		const trailingSlash = this.settings.slugPreset === 'mkdocs' ? '/' : '';
+
+		return `${baseUrl}/${encodedPath}${trailingSlash}`;
+	}
+
+	/**
+	 * Apply the selected slug preset or custom template to a path without extension
+	 */
+	slugifyPath(path: string): string {
+		if (this.settings.slugPreset === 'custom') {
+			return this.applyTemplate(path);
+		}
+
+		return path.split('/').map(segment => this.slugifySegment(segment)).join('/');
+	}
+
+	private slugifySegment(segment: string): string {
+		switch (this.settings.slugPreset) {
+			case 'kebab':
+				return this.toKebabCase(segment);
+			case 'quartz':
+				// Mirrors Quartz's sluggify
+				return segment
+					.replace(/\s/g, '-')
+					.replace(/&/g, '-and-')
+					.replace(/%/g, '-percent')
+					.replace(/\?/g, '')
+					.replace(/#/g, '');
+			case 'mkdocs':
+				// MkDocs serves files under their own names
+				return segment;
+			default:
+				return segment
+					.replace(/\s*&\s*/g, '--and--')  // Replace ' & ' with '--and--'
+					.replace(/\s+/g, '-');           // Replace remaining spaces with hyphens
+		}
+	}
+
+	/**
+	 * Fill the custom slug template. Supported placeholders:
+	 * {folder}, {name}, {kebab-folder}, {kebab-name}, {lower-folder}, {lower-name}
+	 */
+	private applyTemplate(path: string): string {
+		const folder = path.includes('/') ? path.substring(0, path.lastIndexOf('/')) : '';
+		const name = path.substring(path.lastIndexOf('/') + 1);
+		const values: Record<string, string> = {
+			'folder': folder,
+			'name': name,
+			'kebab-folder': folder.split('/').map(segment => this.toKebabCase(segment)).join('/'),
+			'kebab-name': this.toKebabCase(name),
+			'lower-folder': folder.toLowerCase(),
+			'lower-name': name.toLowerCase()
+		};
+
+		const template = this.settings.slugTemplate || '{folder}/{name}';
+		return template
+			.replace(/\{([a-z-]+)\}/g, (placeholder, key: string) => key in values ? values[key] : placeholder)
+			.replace(/\/{2,}/g, '/')
+			.replace(/^\/+|\/+$/g, '');
+	}
+
+	private toKebabCase(segment: string): string {
+		return segment
+			.toLowerCase()
+			.replace(/&/g, ' and ')
+			.replace(/[^\p{L}\p{N}]+/gu, '-')
+			.replace(/^-+|-+$/g, '');
+	}
+
+	updateSettings(newSettings: NSPublishSettings): void {
+		this.settings = newSettings;
+	}
+}
@@ -0,0 +1,213 @@
+import { App, TFile } from 'obsidian';
+import { NSPublishSettings, ParsedLink, Redaction } from './types';
+import { LinkExtractor } from './LinkExtractor';
+import { Redactor } from './Redactor';
+
+const FRONTMATTER_REG = /^---\r?\n[\s\S]*?\r?\n---(?:\r?\n|$)/;
+const HEADING_REG = /^(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+
+/**
+ * Replaces note embeds (`![[Note]]`, `![[Note#Section]]`, `![[Note^block]]`) with the
+ * embedded content, so renderers that don't understand embeds still show it
+ */
+export class Transcluder {
+	private app: App;
+	private settings: NSPublishSettings;
+	private linkExtractor: LinkExtractor;
+	private redactor: Redactor;
+
+	constructor(app: App, settings: NSPublishSettings) {
+		this.app = app;
+		this.settings = settings;
+		this.linkExtractor = new LinkExtractor(app);
+		this.redactor = new Redactor(app, settings);
+	}
+
+	/**
+	 * Inline every note embed in content, recursively. Embedded notes are redacted like published notes,
+	 * and their links are pointed at full vault paths so they still resolve from the embedding note.
+	 * @param content Already redacted content of the embedding note
+	 * @param sourceFile The embedding note
+	 * @param visited Notes being inlined, to stop notes that embed each other
+	 * @returns Flattened content and the redactions made in embedded notes
+	 */
+	async flatten(content: string, sourceFile: TFile, visited: Set<string> = new Set([sourceFile.path])): Promise<{ content: string; redactions: Redaction[] }> {
+		const redactions: Redaction[] = [];
+		const embeds = this.linkExtractor.extractLinks(content)
+			.filter(link => link.isEmbed && link.syntax !== 'frontmatter');
+		let flattened = content;
+
+		// Replace from the end so earlier link positions stay valid
+		for (const embed of embeds.reverse()) {
+			const target = this.linkExtractor.resolveLink(embed, sourceFile.path);
+			if (!target || target.extension !== 'md' || this.isDrawing(target)) {
+				continue;
+			}
+
+			// A note that embeds itself, directly or through others, keeps the embed
+			if (visited.has(target.path)) {
+				continue;
+			}
+
+			try {
+				const redacted = this.redactor.redact(await this.app.vault.cachedRead(target), target.path);
+				redactions.push(...redacted.redactions);
+
+				const section = this.extractSection(redacted.content.replace(FRONTMATTER_REG, ''), embed.subpath);
+				if (section === null) {
+					continue;
+				}
+
+				const nested = await this.flatten(this.useVaultPaths(section, target), target, new Set(visited).add(target.path));
+				redactions.push(...nested.redactions);
+
+				// Embeds render as blocks, so keep inlined content off the lines of surrounding text
+				const before = flattened.substring(0, embed.position.start).replace(/[ \t]+$/, '');
+				const after = flattened.substring(embed.position.end).replace(/^[ \t]+/, '');
+				const prefix = before && !before.endsWith('\n') ? '\n\n' : '';
+				const suffix = after && !after.startsWith('\n') ? '\n\n' : '';
+				flattened = `${before}${prefix}${nested.content.trim()}${suffix}${after}`;
+			} catch (error) {
+				console.error(`Error inlining ${target.path} into ${sourceFile.path}:`, error);
+			}
+		}
+
+		return { content: flattened, redactions };
+	}
+
+	/**
+	 * Get the part of a note an embed subpath points at
+	 * @param content Note content without frontmatter
+	 * @param subpath Empty for the whole note, `#Heading` (or `#Parent#Heading`) or `#^block-id`
+	 * @returns The section, or null when the heading or block doesn't exist
+	 */
+	private extractSection(content: string, subpath: string): string | null {
+		if (!subpath) {
+			return content;
+		}
+
+		const lines = content.split('\n');
+		// Headings and block ids inside code blocks don't count
+		const maskedLines = this.linkExtractor.maskCode(content).split('\n');
+
+		if (subpath.startsWith('#^')) {
+			return this.extractBlock(lines, maskedLines, subpath.substring(2));
+		}
+
+		const headings = subpath.substring(1).split('#').filter(heading => heading);
+		return this.extractHeadingSection(lines, maskedLines, headings[headings.length - 1] || '');
+	}
+
+	private extractHeadingSection(lines: string[], maskedLines: string[], heading: string): string | null {
+		const wanted = this.normalizeHeading(heading);
+		const startIndex = maskedLines.findIndex(line => {
+			const match = line.match(HEADING_REG);
+			return match !== null && this.normalizeHeading(match[2]) === wanted;
+		});
+
+		if (startIndex === -1) {
+			return null;
+		}
+
+		const level = (maskedLines[startIndex].match(HEADING_REG) as RegExpMatchArray)[1].length;
+		let endIndex = lines.length;
+		for (let i = startIndex + 1; i < maskedLines.length; i++) {
+			const match = maskedLines[i].match(HEADING_REG);
+			if (match && match[1].length <= level) {
+				endIndex = i;
+				break;
+			}
+		}
+
+		return lines.slice(startIndex, endIndex).join('\n');
+	}
+
+	/**
+	 * Get the block a block id marks: the paragraph, list or quote ending in `^id`,
+	 * or the one right above an id on its own line
+	 */
+	private extractBlock(lines: string[], maskedLines: string[], blockId: string): string | null {
+		const idReg = new RegExp(`(?:^|\\s)\\^${blockId.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\s*$`);
+		let endIndex = maskedLines.findIndex(line => idReg.test(line));
+
+		if (endIndex === -1) {
+			return null;
+		}
+
+		const blockLines = lines.slice(0, endIndex + 1);
+		blockLines[endIndex] = blockLines[endIndex].replace(idReg, '');
+
+		// An id on its own line belongs to the block above it
+		if (!blockLines[endIndex].trim()) {
+			blockLines.pop();
+			endIndex--;
+			while (endIndex >= 0 && !blockLines[endIndex].trim()) {
+				blockLines.pop();
+				endIndex--;
+			}
+		}
+
+		let startIndex = endIndex;
+		while (startIndex > 0 && blockLines[startIndex - 1].trim()) {
+			startIndex--;
+		}
+
+		return blockLines.slice(startIndex, endIndex + 1).join('\n');
+	}
+
+	/**
+	 * Point wikilinks and relative markdown links at full vault paths, so they resolve
+	 * the same way once the content sits in another note
+	 */
+	private useVaultPaths(content: string, sourceFile: TFile): string {
+		let result = content;
+
+		for (const link of this.linkExtractor.extractLinks(content).reverse()) {
+			const target = this.linkExtractor.resolveLink(link, sourceFile.path);
+			if (!target || link.syntax === 'frontmatter') {
+				continue;
+			}
+
+			const replacement = this.toVaultPathLink(link, target);
+			result = result.substring(0, link.position.start) + replacement + result.substring(link.position.end);
+		}
+
+		return result;
+	}
+
+	private toVaultPathLink(link: ParsedLink, target: TFile): string {
+		const embedPrefix = link.isEmbed ? '!' : '';
+
+		if (link.syntax === 'markdown') {
+			const encodedPath = target.path.split('/').map(segment => encodeURIComponent(segment)).join('/');
+			const text = link.displayText || '';
+			return `${embedPrefix}[${text}](${encodedPath}${link.subpath})`;
+		}
+
+		const linkpath = target.extension === 'md' ? target.path.replace(/\.md$/, '') : target.path;
+		// Keep what readers saw; embeds keep their alias as is since it can hold a size
+		const displayText = link.displayText || (link.isEmbed ? '' : `${link.linkpath}${link.subpath}`);
+		return `${embedPrefix}[[${linkpath}${link.subpath}${displayText ? `|${displayText}` : ''}]]`;
+	}
+
+	/**
+	 * Compare headings the way Obsidian matches heading links
+	 */
+	private normalizeHeading(heading: string): string {
+		return heading
+			.replace(/[#|^:%[\]]/g, '')
+			.replace(/\s+/g, ' ')
+			.trim()
+			.toLowerCase();
+	}
+
+	private isDrawing(file: TFile): boolean {
+		const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+		return !!frontmatter && frontmatter['excalidraw-plugin'] !== undefined;
+	}
+
+	updateSettings(newSettings: NSPublishSettings): void {
+		this.settings = newSettings;
+		this.redactor.updateSettings(newSettings);
+	}
+}
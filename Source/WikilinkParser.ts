@@ -1,52 +1,214 @@
 import { App, TFile } from 'obsidian';
 import { NSPublishSettings } from './types';
 import { ExcalidrawUtil } from './ExcalidrawUtil';
+import { CanvasUtil } from './CanvasUtil';
+import { LinkExtractor } from './LinkExtractor';
+import { Redactor } from './Redactor';
+import { Transcluder } from './Transcluder';
 
 export class WikilinkParser {
 	private app: App;
 	private settings: NSPublishSettings;
 	private excalidrawUtil: ExcalidrawUtil;
+	private canvasUtil: CanvasUtil;
+	private linkExtractor: LinkExtractor;
+	private redactor: Redactor;
+	private transcluder: Transcluder;
 
 	constructor(app: App, settings: NSPublishSettings) {
 		this.app = app;
 		this.settings = settings;
 		this.excalidrawUtil = new ExcalidrawUtil(app);
+		this.canvasUtil = new CanvasUtil(app);
+		this.linkExtractor = new LinkExtractor(app);
+		this.redactor = new Redactor(app, settings);
+		this.transcluder = new Transcluder(app, settings);
 	}
 
-	async getLinkedFiles(file: TFile): Promise<TFile[]> {
+	/**
+	 * Get the markdown notes a note links to, including notes linked from the drawings it embeds
+	 * and notes placed on the canvases it links
+	 * @param file The note to read links from
+	 * @param skippedFiles Optional map that receives notes skipped by exclude patterns, with the reason
+	 */
+	async getLinkedFiles(file: TFile, skippedFiles?: Map<string, string>): Promise<TFile[]> {
+		const linkedFiles: TFile[] = [];
+		const addLinkedFile = (linkedFile: TFile) => {
+			if (linkedFile.path !== file.path && !linkedFiles.includes(linkedFile)) {
+				linkedFiles.push(linkedFile);
+			}
+		};
+
+		for (const linkedFile of await this.resolveLinkedFiles(file, skippedFiles)) {
+			if (linkedFile.extension === 'canvas') {
+				(await this.getCanvasLinkedFiles(linkedFile, skippedFiles)).forEach(addLinkedFile);
+				continue;
+			}
+
+			if (linkedFile.extension !== 'md' && linkedFile.extension !== 'excalidraw') {
+				continue;
+			}
+
+			const isExcalidraw = linkedFile.extension === 'excalidraw' || await this.isExcalidrawFile(linkedFile, file);
+			if (isExcalidraw) {
+				// Links on drawing elements lead to notes at the same depth as the note's own links
+				(await this.getDrawingLinkedFiles(linkedFile, skippedFiles)).forEach(addLinkedFile);
+				continue;
+			}
+			
+			addLinkedFile(linkedFile);
+		}
+
+		return linkedFiles;
+	}
+
+	/**
+	 * Get the markdown notes linked from the text and elements of a drawing, skipping excluded links
+	 * @param drawing The Excalidraw drawing to read links from
+	 * @param skippedFiles Optional map that receives notes skipped by exclude patterns, with the reason
+	 */
+	async getDrawingLinkedFiles(drawing: TFile, skippedFiles?: Map<string, string>): Promise<TFile[]> {
+		const linkedFiles: TFile[] = [];
+
 		try {
-			const content = await this.app.vault.read(file);
+			for (const link of await this.excalidrawUtil.getDrawingLinks(drawing)) {
+				const linkedFile = this.linkExtractor.resolveLink(link, drawing.path);
+				if (!linkedFile || linkedFile.extension !== 'md' || linkedFiles.includes(linkedFile)) {
+					continue;
+				}
+
+				if (this.isExcludedLink(link.linkpath, linkedFile)) {
+					if (!skippedFiles?.has(linkedFile.path)) {
+						skippedFiles?.set(linkedFile.path, `Matches an exclude pattern (linked from ${drawing.path})`);
+					}
+					continue;
+				}
+
+				if (!(await this.isExcalidrawFile(linkedFile, drawing))) {
+					linkedFiles.push(linkedFile);
+				}
+			}
+		} catch (error) {
+			console.error(`Error parsing links in drawing ${drawing.path}:`, error);
+		}
+
+		return linkedFiles;
+	}
+
+	/**
+	 * Get the markdown notes placed on a canvas, skipping excluded notes and drawings
+	 * @param canvas The canvas to read file nodes from
+	 * @param skippedFiles Optional map that receives notes skipped by exclude patterns, with the reason
+	 */
+	async getCanvasLinkedFiles(canvas: TFile, skippedFiles?: Map<string, string>): Promise<TFile[]> {
+		const linkedFiles: TFile[] = [];
+
+		for (const canvasFile of await this.canvasUtil.getCanvasFiles(canvas)) {
+			if (canvasFile.extension !== 'md') {
+				continue;
+			}
+
+			if (this.isExcludedLink(canvasFile.path, canvasFile)) {
+				if (!skippedFiles?.has(canvasFile.path)) {
+					skippedFiles?.set(canvasFile.path, `Matches an exclude pattern (placed on ${canvas.path})`);
+				}
+				continue;
+			}
+
+			if (!(await this.isExcalidrawFile(canvasFile, canvas))) {
+				linkedFiles.push(canvasFile);
+			}
+		}
+
+		return linkedFiles;
+	}
+
+	/**
+	 * Get the Excalidraw drawings a note links or embeds, including raw .excalidraw files
+	 */
+	async getLinkedDrawings(file: TFile): Promise<TFile[]> {
+		const drawings: TFile[] = [];
+
+		for (const linkedFile of await this.resolveLinkedFiles(file)) {
+			if (linkedFile.extension === 'excalidraw'
+				|| (linkedFile.extension === 'md' && await this.isExcalidrawFile(linkedFile, file))) {
+				drawings.push(linkedFile);
+			}
+		}
+
+		return drawings;
+	}
+
+	/**
+	 * Get the non-markdown files (images, PDFs, audio, video...) a note links or embeds,
+	 * including those placed on the canvases it links
+	 */
+	async getLinkedAttachments(file: TFile): Promise<TFile[]> {
+		const attachments: TFile[] = [];
+		const isAttachment = (linkedFile: TFile) => !['md', 'excalidraw', 'canvas'].includes(linkedFile.extension);
+
+		for (const linkedFile of await this.resolveLinkedFiles(file)) {
+			// Canvases are exported as images, so only the files on them are attachments
+			const candidates = linkedFile.extension === 'canvas'
+				? (await this.canvasUtil.getCanvasFiles(linkedFile)).filter(canvasFile => !this.isExcludedLink(canvasFile.path, canvasFile))
+				: [linkedFile];
+
+			for (const candidate of candidates) {
+				if (isAttachment(candidate) && !attachments.includes(candidate)) {
+					attachments.push(candidate);
+				}
+			}
+		}
+
+		return attachments;
+	}
+
+	/**
+	 * Resolve every link in a note to a unique list of vault files, skipping excluded links
+	 */
+	private async resolveLinkedFiles(file: TFile, skippedFiles?: Map<string, string>): Promise<TFile[]> {
+		try {
+			// Links inside redacted content are never published, so don't follow them
+			let { content } = this.redactor.redact(await this.app.vault.read(file), file.path);
+			if (this.settings.flattenTransclusions) {
+				// Inlined notes aren't linked any more, but the links inside them are
+				content = (await this.transcluder.flatten(content, file)).content;
+			}
 			const linkedFiles: TFile[] = [];
 
-			const wikilinkRegex = /\[\[([^\]|]+)(?:\|[^\]]+)?\]\]/g;
-			let match;
+			for (const link of this.linkExtractor.extractLinks(content)) {
+				const linkedFile = this.linkExtractor.resolveLink(link, file.path);
 
-			while ((match = wikilinkRegex.exec(content)) !== null) {
-				const linkText = match[1].trim();
-				
-				if (this.isExcluded(linkText)) {
+				if (this.isExcludedLink(link.linkpath, linkedFile)) {
+					if (linkedFile && linkedFile.extension === 'md' && !skippedFiles?.has(linkedFile.path)) {
+						skippedFiles?.set(linkedFile.path, `Matches an exclude pattern (linked from ${file.path})`);
+					}
 					continue;
 				}
 
-				const linkedFile = this.app.metadataCache.getFirstLinkpathDest(linkText, file.path);
-				
-				if (linkedFile && linkedFile.extension === 'md') {
-					const isExcalidraw = await this.isExcalidrawFile(linkedFile, file);
-					if (isExcalidraw) {
-						continue;
-					}
-					
+				if (linkedFile && linkedFile.path !== file.path && !linkedFiles.includes(linkedFile)) {
 					linkedFiles.push(linkedFile);
 				}
 			}
 
 			return linkedFiles;
 		} catch (error) {
-			console.error(`Error parsing wikilinks in ${file.path}:`, error);
+			console.error(`Error parsing links in ${file.path}:`, error);
 			return [];
 		}
 	}
 
+	/**
+	 * Check whether exclude patterns leave out a link. Patterns are matched against the link as written
+	 * and against the vault path of the file it resolves to, the same way for note links, links on
+	 * drawings and files placed on canvases.
+	 * @param linkText The link as written; a canvas node's file path
+	 * @param linkedFile The file the link resolves to, if any
+	 */
+	isExcludedLink(linkText: string, linkedFile: TFile | null): boolean {
+		return this.isExcluded(linkText) || (linkedFile !== null && this.isExcluded(linkedFile.path));
+	}
+
 	private isExcluded(linkText: string): boolean {
 		return this.settings.excludePatterns.some(pattern => {
 			try {
@@ -58,58 +220,7 @@ export class WikilinkParser {
 		});
 	}
 
-	async getAllLinkedFilesRecursively(
-		startFile: TFile, 
-		maxDepth: number = this.settings.maxDepth,
-		visited: Set<string> = new Set()
-	): Promise<Set<TFile>> {
-		const allLinkedFiles = new Set<TFile>();
-		
-		await this.getAllLinkedFilesRecursivelyHelper(
-			startFile, 
-			maxDepth, 
-			0, 
-			visited, 
-			allLinkedFiles
-		);
-		
-		return allLinkedFiles;
-	}
-
-	private async getAllLinkedFilesRecursivelyHelper(
-		file: TFile,
-		maxDepth: number,
-		currentDepth: number,
-		visited: Set<string>,
-		allLinkedFiles: Set<TFile>
-	): Promise<void> {
-		if (currentDepth >= maxDepth || visited.has(file.path)) {
-			return;
-		}
-
-		visited.add(file.path);
-
-		try {
-			const linkedFiles = await this.getLinkedFiles(file);
-			
-			for (const linkedFile of linkedFiles) {
-				allLinkedFiles.add(linkedFile);
-				
-				// Recursively process linked files
-				await this.getAllLinkedFilesRecursivelyHelper(
-					linkedFile,
-					maxDepth,
-					currentDepth + 1,
-					visited,
-					allLinkedFiles
-				);
-			}
-		} catch (error) {
-			console.error(`Error processing links for ${file.path}:`, error);
-		}
-	}
-
-	private async isExcalidrawFile(file: TFile, currentFile: TFile): Promise<boolean> {
+	async isExcalidrawFile(file: TFile, currentFile: TFile): Promise<boolean> {
 		try {
 			const fileContent = await this.app.vault.cachedRead(file);
 			
@@ -134,5 +245,7 @@ export class WikilinkParser {
 
 	updateSettings(newSettings: NSPublishSettings): void {
 		this.settings = newSettings;
+		this.redactor.updateSettings(newSettings);
+		this.transcluder.updateSettings(newSettings);
 	}
 }
\ No newline at end of file
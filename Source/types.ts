@@ -1,5 +1,19 @@
+import { TFile } from 'obsidian';
+
 export interface NSPublishSettings {
 	targetFolderPath: string;
+	outputMode: OutputMode;
+	gitCommitTemplate: string;
+	gitPush: boolean;
+	gitRemote: string;
+	httpEndpoint: string;
+	httpApi: HttpApi;
+	httpAuth: HttpAuth;
+	httpUsername: string;
+	httpPassword: string;
+	httpToken: string;
+	httpRetries: number;
+	autoPublish: boolean;
 	includeLinkedNotes: boolean;
 	maxDepth: number;
 	excludePatterns: string[];
@@ -7,27 +21,322 @@ export interface NSPublishSettings {
 	addPublishPrefix: boolean;
 	publishPrefix: string;
 	baseUrl: string;
+	attachmentFolderPath: string;
+	unpublishedLinkPolicy: UnpublishedLinkPolicy;
+	flattenTransclusions: boolean;
+	redactComments: boolean;
+	redactCalloutTypes: string[];
+	redactHeadings: string[];
+	frontmatterAllowlist: string[];
+	slugPreset: SlugPreset;
+	slugTemplate: string;
+	slugFileNames: boolean;
+	linkValidationMode: LinkValidationMode;
+	excalidrawExport: ExcalidrawExportOptions;
+	excalidrawLinkList: boolean;
+	outputDialect: OutputDialect;
+	calloutStyle: CalloutStyle;
+	tagStyle: TagStyle;
+	/** Seconds to wait after the last change before auto-publishing */
+	autoPublishDelay: number;
+}
+
+/**
+ * Where published files are written
+ * - vault: a folder inside this vault, given as a vault path
+ * - filesystem: an absolute directory outside the vault (desktop only)
+ * - git: a directory in a local Git repository's working tree, committed after each publish (desktop only)
+ * - http: uploaded to an HTTP endpoint, into the target folder on the server
+ */
+export type OutputMode = 'vault' | 'filesystem' | 'git' | 'http';
+
+/**
+ * How files are uploaded in HTTP output
+ * - webdav: PUT files, MKCOL folders and DELETE removed files under the endpoint URL
+ * - json: POST `{ action, path, ... }` requests to the endpoint URL
+ */
+export type HttpApi = 'webdav' | 'json';
+
+/**
+ * Authentication for HTTP output
+ * - none: no Authorization header
+ * - basic: username and password
+ * - bearer: a token
+ */
+export type HttpAuth = 'none' | 'basic' | 'bearer';
+
+/**
+ * Commit message for Git output. {action} is what happened (e.g. "Publish"), {note} the note it happened to,
+ * {count} the number of changed files and {files} the list of changed files.
+ */
+export const DEFAULT_GIT_COMMIT_TEMPLATE = '{action} {note}\n\n{files}';
+
+/**
+ * Markdown flavor of published copies
+ * - obsidian: keep Obsidian syntax
+ * - commonmark: portable CommonMark/GFM for generic site generators
+ */
+export type OutputDialect = 'obsidian' | 'commonmark';
+
+/**
+ * How callouts are written in CommonMark output
+ * - blockquote: a blockquote starting with the bold callout title
+ * - admonition: `!!! type "Title"` blocks as used by MkDocs and Python-Markdown
+ */
+export type CalloutStyle = 'blockquote' | 'admonition';
+
+/**
+ * How inline #tags are written in CommonMark output
+ * - keep: leave them as they are
+ * - text: drop the # and keep the word
+ * - remove: remove them
+ */
+export type TagStyle = 'keep' | 'text' | 'remove';
+
+/**
+ * How Excalidraw drawings are exported to images.
+ * Drawings can override each option in their frontmatter (e.g. `excalidraw-export-scale: 2`).
+ */
+export interface ExcalidrawExportOptions {
+	format: 'png' | 'svg';
+	scale: number;
+	darkMode: boolean;
+	transparent: boolean;
+	padding: number;
+}
+
+/**
+ * What happens to link validation findings when publishing
+ * - block: findings stop the publish
+ * - warn: findings are reported and the publish continues
+ * - ignore: links are not validated when publishing
+ */
+export type LinkValidationMode = 'block' | 'warn' | 'ignore';
+
+/**
+ * Slug rules used for published URLs (and file names when slugFileNames is on)
+ * - default: `&` becomes `--and--` and spaces become hyphens
+ * - kebab: lowercase words joined by hyphens
+ * - quartz: Quartz's slug rules
+ * - mkdocs: MkDocs directory URLs
+ * - custom: the slugTemplate setting
+ */
+export type SlugPreset = 'default' | 'kebab' | 'quartz' | 'mkdocs' | 'custom';
+
+/**
+ * How links to notes that were not published are written in published copies
+ * - text: replace the link with its display text
+ * - url: link to the note's URL built from the base URL
+ * - keep: leave the link unchanged
+ */
+export type UnpublishedLinkPolicy = 'text' | 'url' | 'keep';
+
+/**
+ * Settings each publish profile sets for itself; every other setting is shared by all profiles
+ */
+export type ProfileSettingKey = 'targetFolderPath' | 'outputMode' | 'gitCommitTemplate' | 'gitPush' | 'gitRemote'
+	| 'httpEndpoint' | 'httpApi' | 'httpAuth' | 'httpUsername' | 'httpPassword' | 'httpToken' | 'httpRetries'
+	| 'autoPublish' | 'includeLinkedNotes' | 'maxDepth' | 'excludePatterns'
+	| 'preserveFolderStructure' | 'addPublishPrefix' | 'publishPrefix' | 'baseUrl'
+	| 'slugPreset' | 'slugTemplate' | 'slugFileNames';
+
+/**
+ * A named publish destination, such as an internal wiki or a public site
+ */
+export interface PublishProfile extends Pick<NSPublishSettings, ProfileSettingKey> {
+	id: string;
+	name: string;
+}
+
+/**
+ * Settings as saved: the shared settings plus every profile.
+ * Components get an NSPublishSettings that merges the shared settings with one profile.
+ */
+export interface NSPublishPluginSettings extends Omit<NSPublishSettings, ProfileSettingKey> {
+	profiles: PublishProfile[];
+	/** Profile used by the general publish commands and the ribbon when there is only one profile */
+	activeProfileId: string;
 }
 
 export const DEFAULT_SETTINGS: NSPublishSettings = {
 	targetFolderPath: '700_Publish',
+	outputMode: 'vault',
+	gitCommitTemplate: DEFAULT_GIT_COMMIT_TEMPLATE,
+	gitPush: false,
+	gitRemote: 'origin',
+	httpEndpoint: '',
+	httpApi: 'webdav',
+	httpAuth: 'none',
+	httpUsername: '',
+	httpPassword: '',
+	httpToken: '',
+	httpRetries: 3,
+	autoPublish: false,
 	includeLinkedNotes: true,
 	maxDepth: 5,
 	excludePatterns: [],
 	preserveFolderStructure: true,
 	addPublishPrefix: false,
 	publishPrefix: 'published_',
-	baseUrl: 'http://172.28.35.242:8080'
+	baseUrl: 'http://172.28.35.242:8080',
+	attachmentFolderPath: '',
+	unpublishedLinkPolicy: 'text',
+	flattenTransclusions: false,
+	redactComments: true,
+	redactCalloutTypes: ['private'],
+	redactHeadings: ['Private'],
+	frontmatterAllowlist: [],
+	slugPreset: 'default',
+	slugTemplate: '{kebab-folder}/{kebab-name}',
+	slugFileNames: false,
+	linkValidationMode: 'warn',
+	excalidrawExport: {
+		format: 'png',
+		scale: 1,
+		darkMode: false,
+		transparent: false,
+		padding: 10
+	},
+	excalidrawLinkList: false,
+	outputDialect: 'obsidian',
+	calloutStyle: 'blockquote',
+	tagStyle: 'keep',
+	autoPublishDelay: 10
 };
 
 export interface PublishResult {
 	publishedFiles: Set<string>;
-	skippedFiles: Set<string>;
+	publishedAttachments: Set<string>;
+	/** Skipped file paths mapped to the reason they were skipped */
+	skippedFiles: Map<string, string>;
+	rewrittenLinks: LinkRewrite[];
+	redactions: Redaction[];
+	/** Published files whose content matched the manifest, so they were not rewritten */
+	unchangedFiles: Set<string>;
+	/** Target paths whose source was renamed or deleted, awaiting confirmation before removal */
+	orphanedFiles: string[];
+	linkFindings: LinkFinding[];
+	/** True when link findings stopped the publish */
+	blockedByValidation: boolean;
 	errors: string[];
 }
 
+/**
+ * Per-note publish directives read from frontmatter
+ * - publish: `publish: false` never publishes the note, even when linked
+ * - depth: `publish-depth` overrides the maximum link depth from this note
+ * - followLinks: `publish-follow-links: false` publishes the note without recursing into it
+ * - path: `publish-path` pins the note's location inside the target folder
+ * - slug: `slug` replaces the published file name
+ * - permalink: `permalink` replaces the published URL path
+ */
+export interface PublishDirectives {
+	publish: boolean;
+	depth?: number;
+	followLinks: boolean;
+	path?: string;
+	slug?: string;
+	permalink?: string;
+}
+
+export interface LinkRewrite {
+	sourcePath: string;
+	line: number;
+	from: string;
+	to: string;
+}
+
+export interface Redaction {
+	sourcePath: string;
+	rule: 'comment' | 'callout' | 'section' | 'frontmatter';
+	detail: string;
+}
+
+export interface ManifestEntry {
+	targetPath: string;
+	hash: string;
+	/** Hash of the source file when it was published */
+	sourceHash?: string;
+	/** Excalidraw images generated for this note */
+	images: string[];
+	publishedAt: number;
+}
+
+export interface DrawingExportEntry {
+	/** Vault path of the drawing, since one drawing can be exported once per frame, group or area */
+	drawingPath: string;
+	/** Vault path of the exported image */
+	imagePath: string;
+	/** Hash of the drawing content and the export options it was exported with */
+	hash: string;
+	exportedAt: number;
+}
+
+/**
+ * A note that was published directly, with the options it was published with
+ */
+export interface PublishRoot {
+	includeLinked: boolean;
+	maxDepth?: number;
+}
+
+/**
+ * A problem with a link in a note that is about to be published
+ * - unresolved: the link matches no file
+ * - excluded: the target matches an exclude pattern
+ * - unpublished: the target is marked publish: false
+ * - depth: the maximum link depth cut the target off
+ * - deselected: the target was unticked in the publish preview
+ * - not-included: the target isn't reached by the links the publish follows, e.g. one inside an inlined embed
+ * - ambiguous: the link's name matches several files
+ */
+export interface LinkFinding {
+	kind: 'unresolved' | 'excluded' | 'unpublished' | 'depth' | 'deselected' | 'not-included' | 'ambiguous';
+	sourcePath: string;
+	line: number;
+	link: string;
+	message: string;
+}
+
 export interface PublishOptions {
 	includeLinked: boolean;
 	maxDepth?: number;
 	excludePatterns?: string[];
-}
\ No newline at end of file
+	/** Only publish these source paths, as picked in the publish preview. The root note is always published */
+	selectedPaths?: Set<string>;
+	/** Publish in the background: no notices and no URL copied to the clipboard */
+	quiet?: boolean;
+}
+
+/**
+ * A file in the publish preview
+ * - kind: notes and attachments are copied; drawings are converted to images in the notes that embed them
+ * - linkedFrom: path of the note whose link included this file, null for the root note
+ * - targetStatus: whether the published copy is missing, out of date or current
+ */
+export interface PublishPlanEntry {
+	file: TFile;
+	kind: 'note' | 'attachment' | 'drawing';
+	depth: number;
+	linkedFrom: string | null;
+	size: number;
+	targetPath: string | null;
+	targetStatus: 'new' | 'changed' | 'unchanged';
+}
+
+export type LinkSyntax = 'wikilink' | 'markdown' | 'frontmatter';
+
+export interface ParsedLink {
+	original: string;
+	linkpath: string;
+	subpath: string;
+	displayText?: string;
+	title?: string;
+	isEmbed: boolean;
+	syntax: LinkSyntax;
+	position: {
+		start: number;
+		end: number;
+		line: number;
+	};
+}
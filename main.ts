@@ -1,21 +1,33 @@
-import { MarkdownView, Notice, Plugin, TFile } from 'obsidian';
-import { NSPublishSettings, DEFAULT_SETTINGS } from './Source/types';
+import { Menu, Notice, Plugin, TAbstractFile, TFile, TFolder } from 'obsidian';
+import { NSPublishPluginSettings, PublishProfile, PublishResult } from './Source/types';
 import { NoteCopier } from './Source/NoteCopier';
+import { migrateSettings, getProfileSettings } from './Source/Profiles';
 import { NSPublishSettingTab } from './Source/SettingsTab';
+import { ConfirmModal } from './Source/ConfirmModal';
+import { PublishPreviewModal } from './Source/PublishPreviewModal';
+import { LinkReportModal } from './Source/LinkReportModal';
+import { PublishReportModal } from './Source/PublishReportModal';
+import { ChoiceSuggestModal } from './Source/ChoiceSuggestModal';
+import { NoteSelector } from './Source/NoteSelector';
+import { AutoPublisher } from './Source/AutoPublisher';
 
 export default class NSPublishPlugin extends Plugin {
-	settings: NSPublishSettings;
-	private noteCopier: NoteCopier;
+	settings: NSPublishPluginSettings;
+	// One note copier per profile, created when the profile is first used
+	private noteCopiers: Map<string, NoteCopier> = new Map();
+	private profileCommandIds: Set<string> = new Set();
+	private autoPublisher: AutoPublisher;
 
 	async onload() {
 		await this.loadSettings();
 
-		// Initialize the note copier with current settings
-		this.noteCopier = new NoteCopier(this.app, this.settings);
-
-		// Add ribbon icon
+		// Add ribbon icon; with several profiles it asks which one to publish to
 		const ribbonIconEl = this.addRibbonIcon('paper-plane', 'NS Publish', (evt: MouseEvent) => {
-			this.publishCurrentNote();
+			if (this.settings.profiles.length > 1) {
+				this.showProfileMenu(evt);
+			} else {
+				this.publishCurrentNote();
+			}
 		});
 		ribbonIconEl.addClass('ns-publish-ribbon-class');
 
@@ -51,10 +63,10 @@ export default class NSPublishPlugin extends Plugin {
 			}
 		});
 
-		// Command to show publishing statistics
+		// Command to preview the publish set and choose files for this run
 		this.addCommand({
 			id: 'show-publish-stats',
-			name: 'Show publishing statistics',
+			name: 'Preview publish and choose files',
 			checkCallback: (checking: boolean) => {
 				const activeFile = this.app.workspace.getActiveFile();
 				if (activeFile && activeFile.extension === 'md') {
@@ -67,30 +79,225 @@ export default class NSPublishPlugin extends Plugin {
 			}
 		});
 
+		// Command to check links before publishing
+		this.addCommand({
+			id: 'validate-publish-links',
+			name: 'Validate links in publish set',
+			checkCallback: (checking: boolean) => {
+				const activeFile = this.app.workspace.getActiveFile();
+				if (activeFile && activeFile.extension === 'md') {
+					if (!checking) {
+						this.validateCurrentNoteLinks();
+					}
+					return true;
+				}
+				return false;
+			}
+		});
+
+		// Command to remove the current note and its no-longer-needed dependencies from the publish folder
+		this.addCommand({
+			id: 'unpublish-current-note',
+			name: 'Unpublish current note',
+			checkCallback: (checking: boolean) => {
+				const activeFile = this.app.workspace.getActiveFile();
+				if (activeFile && activeFile.extension === 'md') {
+					if (!checking) {
+						this.unpublishNote(activeFile);
+					}
+					return true;
+				}
+				return false;
+			}
+		});
+
+		// Commands to publish every note with a tag or property in one run
+		this.addCommand({
+			id: 'publish-notes-with-tag',
+			name: 'Publish notes with tag',
+			callback: () => {
+				const selector = this.getNoteSelector();
+				new ChoiceSuggestModal(this.app, 'Tag of the notes to publish', selector.getAllTags(), tag => {
+					this.publishBatch(selector.getTaggedNotes(tag), `notes tagged ${tag}`);
+				}).open();
+			}
+		});
+
+		this.addCommand({
+			id: 'publish-notes-with-property',
+			name: 'Publish notes with property',
+			callback: () => {
+				const selector = this.getNoteSelector();
+				new ChoiceSuggestModal(this.app, 'Property, or property: value, of the notes to publish', selector.getAllProperties(), property => {
+					const separatorIndex = property.indexOf(': ');
+					const notes = separatorIndex === -1
+						? selector.getNotesWithProperty(property)
+						: selector.getNotesWithProperty(property.substring(0, separatorIndex), property.substring(separatorIndex + 2));
+					this.publishBatch(notes, `notes with ${property}`);
+				}).open();
+			}
+		});
+
+		// One command per profile
+		this.addProfileCommands();
+
+		// File menu entries for unpublishing notes and publishing folders
+		this.registerEvent(this.app.workspace.on('file-menu', (menu, file) => {
+			if (file instanceof TFolder) {
+				menu.addItem(item => item
+					.setTitle('Publish folder')
+					.setIcon('paper-plane')
+					.onClick(() => this.publishBatch(this.getNoteSelector().getNotes([file]), file.isRoot() ? 'the vault' : file.path)));
+				return;
+			}
+
+			if (!(file instanceof TFile) || file.extension !== 'md') {
+				return;
+			}
+
+			menu.addItem(item => item
+				.setTitle('Unpublish note')
+				.setIcon('trash-2')
+				.onClick(() => this.unpublishNote(file)));
+		}));
+
+		// Menu entry for several files and folders selected in the file explorer
+		this.registerEvent(this.app.workspace.on('files-menu', (menu, files: TAbstractFile[]) => {
+			menu.addItem(item => item
+				.setTitle('Publish selected files')
+				.setIcon('paper-plane')
+				.onClick(() => this.publishBatch(this.getNoteSelector().getNotes(files), `${files.length} selected item(s)`)));
+		}));
+
+		// Republish published notes when they change, for profiles with auto-publish on
+		const statusBarEl = this.addStatusBarItem();
+		statusBarEl.addClass('mod-clickable');
+		this.autoPublisher = new AutoPublisher(
+			statusBarEl,
+			() => this.settings.profiles
+				.filter(profile => profile.autoPublish)
+				.map(profile => ({ name: profile.name, noteCopier: this.getNoteCopier(profile) })),
+			() => this.settings.autoPublishDelay
+		);
+		this.registerDomEvent(statusBarEl, 'click', () => this.autoPublisher.togglePaused());
+		this.registerEvent(this.app.vault.on('modify', file => this.autoPublisher.onModify(file)));
+		this.registerEvent(this.app.vault.on('rename', (file, oldPath) => this.autoPublisher.onRename(file, oldPath)));
+		this.registerEvent(this.app.vault.on('delete', file => this.autoPublisher.onDelete(file)));
+
+		this.addCommand({
+			id: 'toggle-auto-publish',
+			name: 'Pause or resume auto-publish',
+			checkCallback: (checking: boolean) => {
+				if (this.settings.profiles.some(profile => profile.autoPublish)) {
+					if (!checking) {
+						this.autoPublisher.togglePaused();
+					}
+					return true;
+				}
+				return false;
+			}
+		});
+
 		// Add settings tab
 		this.addSettingTab(new NSPublishSettingTab(this.app, this));
 	}
 
 	onunload() {
 		// Clean up when plugin is disabled
+		this.autoPublisher.destroy();
 	}
 
 	async loadSettings() {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+		// Settings saved before profiles existed become the "Default" profile
+		this.settings = migrateSettings(await this.loadData());
 	}
 
 	async saveSettings() {
 		await this.saveData(this.settings);
-		// Update the note copier with new settings
-		if (this.noteCopier) {
-			this.noteCopier.updateSettings(this.settings);
+		// Update the note copiers with new settings and drop those of deleted profiles
+		for (const [profileId, noteCopier] of Array.from(this.noteCopiers.entries())) {
+			const profile = this.settings.profiles.find(candidate => candidate.id === profileId);
+			if (profile) {
+				noteCopier.updateSettings(getProfileSettings(this.settings, profile));
+			} else {
+				this.noteCopiers.delete(profileId);
+			}
+		}
+		this.addProfileCommands();
+		this.autoPublisher.updateStatus();
+	}
+
+	/**
+	 * Get the profile the general publish commands use
+	 */
+	getActiveProfile(): PublishProfile {
+		return this.settings.profiles.find(profile => profile.id === this.settings.activeProfileId) || this.settings.profiles[0];
+	}
+
+	/**
+	 * Get the note copier that publishes with a profile's settings
+	 */
+	private getNoteCopier(profile: PublishProfile = this.getActiveProfile()): NoteCopier {
+		let noteCopier = this.noteCopiers.get(profile.id);
+		if (!noteCopier) {
+			noteCopier = new NoteCopier(this.app, getProfileSettings(this.settings, profile));
+			this.noteCopiers.set(profile.id, noteCopier);
+		}
+		return noteCopier;
+	}
+
+	/**
+	 * Register a publish command for each profile that doesn't have one yet.
+	 * Commands of deleted profiles stay registered until reload but are no longer available.
+	 */
+	private addProfileCommands() {
+		for (const profile of this.settings.profiles) {
+			if (this.profileCommandIds.has(profile.id)) {
+				continue;
+			}
+			this.profileCommandIds.add(profile.id);
+
+			const profileId = profile.id;
+			this.addCommand({
+				id: `publish-profile-${profileId}`,
+				name: `Publish current note to ${profile.name}`,
+				checkCallback: (checking: boolean) => {
+					const currentProfile = this.settings.profiles.find(candidate => candidate.id === profileId);
+					const activeFile = this.app.workspace.getActiveFile();
+					if (currentProfile && activeFile && activeFile.extension === 'md') {
+						if (!checking) {
+							this.publishCurrentNote(currentProfile);
+						}
+						return true;
+					}
+					return false;
+				}
+			});
+		}
+	}
+
+	/**
+	 * Let the user pick the profile to publish the current note to
+	 */
+	private showProfileMenu(evt: MouseEvent) {
+		const menu = new Menu();
+		const activeProfile = this.getActiveProfile();
+
+		for (const profile of this.settings.profiles) {
+			menu.addItem(item => item
+				.setTitle(profile.name)
+				.setChecked(profile.id === activeProfile.id)
+				.onClick(() => this.publishCurrentNote(profile)));
 		}
+
+		menu.showAtMouseEvent(evt);
 	}
 
 	/**
 	 * Publish the current note with linked notes (main action)
+	 * @param profile Profile to publish with; the active profile by default
 	 */
-	async publishCurrentNote() {
+	async publishCurrentNote(profile: PublishProfile = this.getActiveProfile()) {
 		const activeFile = this.app.workspace.getActiveFile();
 		if (!activeFile) {
 			new Notice('No active file to publish');
@@ -98,15 +305,13 @@ export default class NSPublishPlugin extends Plugin {
 		}
 
 		try {
-			const result = await this.noteCopier.publishNote(activeFile, {
-				includeLinked: this.settings.includeLinkedNotes,
-				maxDepth: this.settings.maxDepth,
-				excludePatterns: this.settings.excludePatterns
+			const result = await this.getNoteCopier(profile).publishNote(activeFile, {
+				includeLinked: profile.includeLinkedNotes,
+				maxDepth: profile.maxDepth,
+				excludePatterns: profile.excludePatterns
 			});
 
-			if (result.errors.length > 0) {
-				new Notice(`Published with ${result.errors.length} error(s). Check console for details.`);
-			}
+			await this.handlePublishResult(result, profile);
 
 		} catch (error) {
 			console.error('Error in publishCurrentNote:', error);
@@ -125,13 +330,11 @@ export default class NSPublishPlugin extends Plugin {
 		}
 
 		try {
-			const result = await this.noteCopier.publishNote(activeFile, {
+			const result = await this.getNoteCopier().publishNote(activeFile, {
 				includeLinked: false
 			});
 
-			if (result.errors.length > 0) {
-				new Notice(`Published with ${result.errors.length} error(s). Check console for details.`);
-			}
+			await this.handlePublishResult(result, this.getActiveProfile());
 
 		} catch (error) {
 			console.error('Error in publishCurrentNoteOnly:', error);
@@ -140,9 +343,115 @@ export default class NSPublishPlugin extends Plugin {
 	}
 
 	/**
-	 * Show statistics about what would be published
+	 * Get a note selector that ignores the active profile's published copies
 	 */
-	async showPublishingStats() {
+	private getNoteSelector(): NoteSelector {
+		return new NoteSelector(this.app, getProfileSettings(this.settings, this.getActiveProfile()));
+	}
+
+	/**
+	 * Publish several notes in one run with the active profile, then report on all of them at once
+	 * @param files The notes to publish
+	 * @param description What was selected, for the confirmation and report
+	 */
+	async publishBatch(files: TFile[], description: string) {
+		if (files.length === 0) {
+			new Notice(`No notes to publish in ${description}`);
+			return;
+		}
+
+		const profile = this.getActiveProfile();
+		const confirmed = await new ConfirmModal(
+			this.app,
+			'Publish notes?',
+			`The following ${files.length} note(s) from ${description} will be published to ${profile.name}`
+				+ `${profile.includeLinkedNotes ? ' with their linked notes' : ''}:`,
+			files.map(file => file.path),
+			'Publish'
+		).waitForConfirmation();
+
+		if (!confirmed) {
+			return;
+		}
+
+		try {
+			const result = await this.getNoteCopier(profile).publishNotes(files, {
+				includeLinked: profile.includeLinkedNotes,
+				maxDepth: profile.maxDepth,
+				excludePatterns: profile.excludePatterns
+			});
+
+			if (!result.blockedByValidation) {
+				await new PublishReportModal(this.app, `Published ${description}`, files.map(file => file.path), result).waitForClose();
+			}
+
+			await this.handlePublishResult(result, profile);
+
+		} catch (error) {
+			console.error('Error in publishBatch:', error);
+			new Notice(`Failed to publish: ${error.message}`);
+		}
+	}
+
+	/**
+	 * Remove a note's published copy, generated images and dependencies no other published note needs
+	 */
+	async unpublishNote(file: TFile) {
+		try {
+			const noteCopier = this.getNoteCopier();
+			const targetPaths = await noteCopier.getUnpublishTargets(file);
+			if (targetPaths.length === 0) {
+				new Notice(`${file.name} has no published files to remove`);
+				return;
+			}
+
+			const confirmed = await new ConfirmModal(
+				this.app,
+				'Unpublish note?',
+				`The following ${targetPaths.length} published file(s) will be removed:`,
+				targetPaths,
+				'Unpublish'
+			).waitForConfirmation();
+
+			if (!confirmed) {
+				return;
+			}
+
+			const errors = await noteCopier.unpublishNote(file, targetPaths);
+			if (errors.length > 0) {
+				console.error('Errors unpublishing note:', errors);
+				new Notice(`Unpublished with ${errors.length} error(s). Check console for details.`);
+			} else {
+				new Notice(`Unpublished ${file.name} (${targetPaths.length} file(s) removed)`);
+			}
+
+		} catch (error) {
+			console.error('Error in unpublishNote:', error);
+			new Notice(`Failed to unpublish: ${error.message}`);
+		}
+	}
+
+	/**
+	 * Report the outcome of a publish and follow up on link issues and orphaned files
+	 */
+	private async handlePublishResult(result: PublishResult, profile: PublishProfile) {
+		if (result.blockedByValidation) {
+			new Notice(`Publishing blocked by ${result.linkFindings.length} link issue(s)`);
+			new LinkReportModal(this.app, 'Publishing blocked by link issues', result.linkFindings).open();
+			return;
+		}
+
+		if (result.errors.length > 0) {
+			new Notice(`Published with ${result.errors.length} error(s). Check console for details.`);
+		}
+
+		await this.confirmOrphanCleanup(result, profile);
+	}
+
+	/**
+	 * Check the links of the current note's publish set without publishing
+	 */
+	async validateCurrentNoteLinks() {
 		const activeFile = this.app.workspace.getActiveFile();
 		if (!activeFile) {
 			new Notice('No active file selected');
@@ -150,36 +459,89 @@ export default class NSPublishPlugin extends Plugin {
 		}
 
 		try {
-			const stats = await this.noteCopier.getPublishingStats(
-				activeFile, 
-				this.settings.includeLinkedNotes
-			);
-
-			const sizeKB = Math.round(stats.estimatedSize / 1024 * 100) / 100;
-			
-			let message = `Publishing Statistics:\n`;
-			message += `• Total files: ${stats.totalFiles}\n`;
-			message += `• Main file: ${activeFile.name}\n`;
-			message += `• Linked files: ${stats.linkedFiles.length}\n`;
-			message += `• Estimated size: ${sizeKB} KB\n`;
-			
-			if (stats.linkedFiles.length > 0) {
-				message += `\nLinked files:\n`;
-				stats.linkedFiles.slice(0, 10).forEach(file => {
-					message += `  - ${file.name}\n`;
-				});
-				
-				if (stats.linkedFiles.length > 10) {
-					message += `  ... and ${stats.linkedFiles.length - 10} more\n`;
-				}
+			const profile = this.getActiveProfile();
+			const findings = await this.getNoteCopier(profile).validateLinks(activeFile, {
+				includeLinked: profile.includeLinkedNotes,
+				maxDepth: profile.maxDepth,
+				excludePatterns: profile.excludePatterns
+			});
+
+			if (findings.length === 0) {
+				new Notice('No link issues found');
+				return;
 			}
 
-			new Notice(message, 8000);
-			console.log('Publishing stats:', stats);
+			new LinkReportModal(this.app, `Link issues in ${activeFile.basename}`, findings).open();
+
+		} catch (error) {
+			console.error('Error validating links:', error);
+			new Notice(`Error validating links: ${error.message}`);
+		}
+	}
+
+	/**
+	 * Offer to remove published files whose source notes were renamed or deleted
+	 */
+	private async confirmOrphanCleanup(result: PublishResult, profile: PublishProfile) {
+		if (result.orphanedFiles.length === 0) {
+			return;
+		}
+
+		const confirmed = await new ConfirmModal(
+			this.app,
+			'Remove orphaned files?',
+			`${result.orphanedFiles.length} published file(s) no longer have a source note or were replaced:`,
+			result.orphanedFiles,
+			'Remove'
+		).waitForConfirmation();
+
+		if (!confirmed) {
+			return;
+		}
+
+		const errors = await this.getNoteCopier(profile).removePublishedFiles(result.orphanedFiles);
+		if (errors.length > 0) {
+			console.error('Errors removing orphaned files:', errors);
+			new Notice(`Removed orphaned files with ${errors.length} error(s). Check console for details.`);
+		} else {
+			new Notice(`Removed ${result.orphanedFiles.length} orphaned file(s)`);
+		}
+	}
+
+	/**
+	 * Preview what would be published and let the user pick the files for this run
+	 */
+	async showPublishingStats() {
+		const activeFile = this.app.workspace.getActiveFile();
+		if (!activeFile) {
+			new Notice('No active file selected');
+			return;
+		}
+
+		try {
+			const profile = this.getActiveProfile();
+			const noteCopier = this.getNoteCopier(profile);
+			const options = {
+				includeLinked: profile.includeLinkedNotes,
+				maxDepth: profile.maxDepth,
+				excludePatterns: profile.excludePatterns
+			};
+			const plan = await noteCopier.planPublish(activeFile, options);
+
+			new PublishPreviewModal(this.app, activeFile, plan, async (selectedPaths) => {
+				try {
+					const result = await noteCopier.publishNote(activeFile, { ...options, selectedPaths });
+
+					await this.handlePublishResult(result, profile);
+				} catch (error) {
+					console.error('Error publishing from preview:', error);
+					new Notice(`Failed to publish: ${error.message}`);
+				}
+			}).open();
 
 		} catch (error) {
-			console.error('Error getting publishing stats:', error);
-			new Notice(`Error calculating stats: ${error.message}`);
+			console.error('Error building publish preview:', error);
+			new Notice(`Error building publish preview: ${error.message}`);
 		}
 	}
 }
\ No newline at end of file